@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCollectionRuns, findCollectorGaps } from '@/lib/collection-runs'
+import { getInstalledWorkspaces } from '@/lib/installations'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Per-user error codes can reveal who lacks access, so keep this behind the admin secret
+    const isDev = process.env.NODE_ENV === 'development'
+    const adminSecret = request.headers.get('x-admin-secret')
+    const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+    if (!isDev && (!adminSecret || !validSecret || adminSecret !== validSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const startParam = searchParams.get('start')
+    const endParam = searchParams.get('end')
+    const includeUserResults = searchParams.get('users') === 'true'
+    // One workspace, or all of them
+    const teamParam = searchParams.get('teamId')
+
+    // Default to the last 24 hours
+    const end = endParam ? new Date(endParam) : new Date()
+    const start = startParam ? new Date(startParam) : new Date(end.getTime() - 24 * 60 * 60 * 1000)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return NextResponse.json({ error: 'Invalid start/end range' }, { status: 400 })
+    }
+
+    // Gaps are per workspace - one workspace failing doesn't mean the others weren't collected
+    const slackTeamIds = teamParam ? [teamParam] : (await getInstalledWorkspaces()).map(workspace => workspace.slackTeamId)
+    const [runs, gapsByTeam] = await Promise.all([
+      getCollectionRuns(start, end, { includeUserResults, ...(teamParam ? { slackTeamId: teamParam } : {}) }),
+      Promise.all(slackTeamIds.map(async slackTeamId =>
+        (await findCollectorGaps(slackTeamId, start, end)).map(gap => ({ slackTeamId, ...gap }))
+      ))
+    ])
+    const gaps = gapsByTeam.flat()
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      range: { start: start.toISOString(), end: end.toISOString() },
+      summary: {
+        runs: runs.length,
+        completed: runs.filter(r => r.status === 'completed').length,
+        skipped: runs.filter(r => r.status === 'skipped').length,
+        failed: runs.filter(r => r.status === 'failed').length,
+        running: runs.filter(r => r.status === 'running').length,
+        gaps: gaps.length,
+        gapMinutes: gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0)
+      },
+      gaps,
+      runs
+    })
+  } catch (error) {
+    console.error('❌ Error fetching collection runs:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch collection runs',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { compactPresenceLogs } from '@/lib/presence-intervals'
+
+export const maxDuration = 60
+
+// Fold legacy presence_logs into presence_intervals. Each call works within a time
+// budget and can simply be repeated until it reports remaining: false.
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const isDev = process.env.NODE_ENV === 'development'
+    const adminSecret = request.headers.get('x-admin-secret')
+    const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+    if (!isDev && (!adminSecret || !validSecret || adminSecret !== validSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId') || undefined
+
+    console.log(`🗜️ Compacting presence logs${userId ? ` for user ${userId}` : ''}...`)
+    const result = await compactPresenceLogs({ userIds: userId ? [userId] : undefined, timeBudgetMs: 50 * 1000 })
+    const duration = Date.now() - startTime
+
+    console.log(`✅ Compacted ${result.logsCompacted} logs into ${result.intervalsCreated} intervals in ${duration}ms${result.timedOut ? ' (paused)' : ''}`)
+
+    return NextResponse.json({
+      message: result.timedOut
+        ? 'Compaction paused - call again to continue'
+        : 'Compaction completed',
+      remaining: result.timedOut,
+      results: {
+        ...result,
+        duration: `${duration}ms`
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('❌ Error compacting presence logs:', error)
+    return NextResponse.json({
+      error: 'Failed to compact presence logs',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
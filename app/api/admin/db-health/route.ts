@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkDatabaseHealth, getDatabaseStats } from '@/lib/db-utils'
 import { prisma } from '@/lib/db'
+import { DEFAULT_RAW_RETENTION_DAYS, getWorkspaceRetention } from '@/lib/retention'
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,6 +26,7 @@ export async function GET(request: NextRequest) {
     const operationalChecks = {
       canReadUsers: false,
       canReadPresenceLogs: false,
+      canReadPresenceIntervals: false,
       connectionPoolConfig: {
         max: parseInt(process.env.DB_POOL_MAX || '15'),
         min: parseInt(process.env.DB_POOL_MIN || '2'),
@@ -46,11 +48,30 @@ export async function GET(request: NextRequest) {
       console.error('❌ Cannot read presence_logs table:', error)
     }
     
+    try {
+      await prisma.presenceInterval.findFirst({ select: { id: true } })
+      operationalChecks.canReadPresenceIntervals = true
+    } catch (error) {
+      console.error('❌ Cannot read presence_intervals table:', error)
+    }
+    
+    // Retention policy in effect for each workspace (estimates live on /api/admin/retention)
+    let retention = null
+    try {
+      retention = {
+        defaultRawRetentionDays: DEFAULT_RAW_RETENTION_DAYS,
+        workspaces: await getWorkspaceRetention()
+      }
+    } catch (error) {
+      console.error('❌ Cannot read retention policies:', error)
+    }
+    
     const response = {
       timestamp: new Date().toISOString(),
       health: healthCheck,
       stats,
       operational: operationalChecks,
+      retention,
       environment: {
         nodeEnv: process.env.NODE_ENV,
         hasDatabaseUrl: !!process.env.DATABASE_URL,
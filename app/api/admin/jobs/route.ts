@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJobStates } from '@/lib/scheduler'
+
+// Last success and failure of each job the built-in scheduler runs
+export async function GET(request: NextRequest) {
+  try {
+    const isDev = process.env.NODE_ENV === 'development'
+    const adminSecret = request.headers.get('x-admin-secret')
+    const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+    if (!isDev && (!adminSecret || !validSecret || adminSecret !== validSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const jobs = await getJobStates()
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      schedulerEnabled: process.env.SCHEDULER_ENABLED === 'true',
+      summary: {
+        jobs: jobs.length,
+        running: jobs.filter(job => job.lastStatus === 'running').length,
+        failing: jobs.filter(job => job.consecutiveFailures > 0).length
+      },
+      jobs
+    })
+  } catch (error) {
+    console.error('❌ Error fetching job states:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch job states',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
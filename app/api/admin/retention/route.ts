@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  applyRetention,
+  estimateRetention,
+  getWorkspaceRetention,
+  setRetentionPolicy
+} from '@/lib/retention'
+
+export const maxDuration = 60
+
+function isAuthorized(request: NextRequest) {
+  const isDev = process.env.NODE_ENV === 'development'
+  const adminSecret = request.headers.get('x-admin-secret')
+  const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+  return isDev || (!!adminSecret && !!validSecret && adminSecret === validSecret)
+}
+
+async function getWorkspaces(teamId: string | null) {
+  const workspaces = await getWorkspaceRetention()
+  return teamId ? workspaces.filter(workspace => workspace.slackTeamId === teamId) : workspaces
+}
+
+// Dry-run report: what each workspace's policy would prune right now
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const estimates = await estimateRetention(await getWorkspaces(searchParams.get('teamId')))
+    const eligible = estimates.filter(estimate => estimate.enabled)
+
+    return NextResponse.json({
+      dryRun: true,
+      summary: {
+        rows: eligible.reduce((sum, estimate) => sum + estimate.rows, 0),
+        bytes: eligible.reduce((sum, estimate) => sum + estimate.bytes, 0)
+      },
+      workspaces: estimates,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('❌ Error estimating presence log retention:', error)
+    return NextResponse.json({
+      error: 'Failed to estimate retention',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
+
+// Apply retention now. Repeat until it reports remaining: false.
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const teamId = searchParams.get('teamId')
+
+    console.log(`🧹 Applying presence log retention${teamId ? ` for team ${teamId}` : ''}...`)
+    const result = await applyRetention(await getWorkspaces(teamId), { timeBudgetMs: 50 * 1000 })
+    const duration = Date.now() - startTime
+
+    console.log(`✅ Pruned ${result.logsDeleted} presence logs into ${result.bucketsWritten} buckets in ${duration}ms${result.timedOut ? ' (paused)' : ''}`)
+
+    return NextResponse.json({
+      message: result.timedOut
+        ? 'Retention paused - call again to continue'
+        : 'Retention completed',
+      remaining: result.timedOut,
+      results: {
+        ...result,
+        duration: `${duration}ms`
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('❌ Error applying presence log retention:', error)
+    return NextResponse.json({
+      error: 'Failed to apply retention',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
+
+// Set a workspace's policy: { teamId, rawRetentionDays, enabled? }
+export async function PUT(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body.teamId !== 'string' || typeof body.rawRetentionDays !== 'number') {
+      return NextResponse.json({ error: 'teamId and rawRetentionDays are required' }, { status: 400 })
+    }
+
+    let policy
+    try {
+      policy = await setRetentionPolicy(body.teamId, body.rawRetentionDays, body.enabled !== false)
+    } catch (error) {
+      return NextResponse.json({
+        error: 'Invalid retention policy',
+        details: error instanceof Error ? error.message : String(error)
+      }, { status: 400 })
+    }
+
+    console.log(`🗓️ Retention for team ${policy.slackTeamId} set to ${policy.rawRetentionDays} days${policy.enabled ? '' : ' (disabled)'}`)
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    console.error('❌ Error updating retention policy:', error)
+    return NextResponse.json({
+      error: 'Failed to update retention policy',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
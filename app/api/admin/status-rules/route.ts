@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  DEFAULT_STATUS_RULES,
+  STATUS_CATEGORIES,
+  deleteStatusRule,
+  getStatusRules,
+  isStatusCategory,
+  setStatusRule
+} from '@/lib/status-classifier'
+
+function isAuthorized(request: NextRequest) {
+  const isDev = process.env.NODE_ENV === 'development'
+  const adminSecret = request.headers.get('x-admin-secret')
+  const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+  return isDev || (!!adminSecret && !!validSecret && adminSecret === validSecret)
+}
+
+function isMatchType(value: unknown): value is 'emoji' | 'keyword' {
+  return value === 'emoji' || value === 'keyword'
+}
+
+// A workspace's status classifier rules, alongside the built-in ones they're checked before
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const teamId = new URL(request.url).searchParams.get('teamId')
+    if (!teamId) {
+      return NextResponse.json({ error: 'teamId is required' }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      teamId,
+      categories: STATUS_CATEGORIES,
+      rules: await getStatusRules(teamId),
+      defaults: DEFAULT_STATUS_RULES
+    })
+  } catch (error) {
+    console.error('❌ Error fetching status rules:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch status rules',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
+
+// Add or re-categorize a rule: { teamId, category, matchType: "emoji" | "keyword", pattern }
+export async function PUT(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (
+      !body || typeof body.teamId !== 'string' || typeof body.pattern !== 'string' ||
+      !isStatusCategory(body.category) || !isMatchType(body.matchType)
+    ) {
+      return NextResponse.json({
+        error: `teamId, pattern, matchType (emoji or keyword) and category (${STATUS_CATEGORIES.join(', ')}) are required`
+      }, { status: 400 })
+    }
+
+    let rule
+    try {
+      rule = await setStatusRule(body.teamId, { category: body.category, matchType: body.matchType, pattern: body.pattern })
+    } catch (error) {
+      return NextResponse.json({
+        error: 'Invalid status rule',
+        details: error instanceof Error ? error.message : String(error)
+      }, { status: 400 })
+    }
+
+    console.log(`🏷️ Status rule for team ${rule.slackTeamId}: ${rule.matchType} "${rule.pattern}" → ${rule.category}`)
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('❌ Error updating status rule:', error)
+    return NextResponse.json({
+      error: 'Failed to update status rule',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
+
+// Remove a rule: ?teamId=...&matchType=emoji|keyword&pattern=...
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const teamId = searchParams.get('teamId')
+    const matchType = searchParams.get('matchType')
+    const pattern = searchParams.get('pattern')
+
+    if (!teamId || !pattern || !isMatchType(matchType)) {
+      return NextResponse.json({ error: 'teamId, matchType and pattern are required' }, { status: 400 })
+    }
+
+    const deleted = await deleteStatusRule(teamId, matchType, pattern)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Status rule not found' }, { status: 404 })
+    }
+
+    console.log(`🏷️ Removed status rule for team ${teamId}: ${matchType} "${pattern}"`)
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('❌ Error deleting status rule:', error)
+    return NextResponse.json({
+      error: 'Failed to delete status rule',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
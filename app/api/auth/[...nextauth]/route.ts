@@ -1,5 +1,9 @@
 import NextAuth from 'next-auth'
 import { prisma } from '@/lib/db'
+import { slackApi, slackWebUrl, SLACK_API_BASE_URL } from '@/lib/slack'
+import { saveInstallation } from '@/lib/installations'
+import { sealOptionalToken } from '@/lib/token-crypto'
+import { userMetadata } from '@/lib/slack-users'
 
 const handler = NextAuth({
   providers: [
@@ -9,7 +13,7 @@ const handler = NextAuth({
       type: 'oauth',
       version: '2.0',
       authorization: {
-        url: 'https://slack.com/oauth/v2/authorize',
+        url: slackWebUrl('/oauth/v2/authorize'),
         params: {
           scope: [
             'users:read',
@@ -23,7 +27,8 @@ const handler = NextAuth({
             'mpim:read',
             'mpim:history',
             'team:read',
-            'users.profile:read'
+            'users.profile:read',
+            'dnd:read'
           ].join(' '),
           user_scope: [
             'channels:read',
@@ -39,41 +44,22 @@ const handler = NextAuth({
           ].join(' ')
         }
       },
-      token: 'https://slack.com/api/oauth.v2.access',
+      token: `${SLACK_API_BASE_URL}/oauth.v2.access`,
       userinfo: {
-        url: 'https://slack.com/api/auth.test',
+        url: `${SLACK_API_BASE_URL}/auth.test`,
         async request({ tokens }: { tokens: { authed_user?: { access_token?: string }; access_token?: string } }) {
-          // Use the user token (authed_user.access_token) instead of bot token
-          const userToken = tokens.authed_user?.access_token || tokens.access_token
+          // Use the user token (authed_user.access_token) instead of bot token,
+          // sealed straight away - only the Slack gateway handles tokens in the clear
+          const userToken = sealOptionalToken(tokens.authed_user?.access_token || tokens.access_token)
+          const botToken = sealOptionalToken(tokens.access_token)
           
           // First, get the user info to get the team
-          const authResponse = await fetch('https://slack.com/api/auth.test', {
-            headers: {
-              'Authorization': `Bearer ${userToken}`,
-            },
-          })
-          const authData = await authResponse.json()
-          
-          if (!authData.ok) {
-            throw new Error(`Slack API error: ${authData.error}`)
-          }
+          const authData = await slackApi('auth.test', userToken || null, {})
           
           // Get user info using the user token
-          const userResponse = await fetch('https://slack.com/api/users.info', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${userToken}`,
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-              user: authData.user_id
-            })
+          const userData = await slackApi('users.info', userToken || null, {
+            user: authData.user_id
           })
-          const userData = await userResponse.json()
-          
-          if (!userData.ok) {
-            throw new Error(`Slack API error: ${userData.error}`)
-          }
           
           return {
             id: authData.user_id,
@@ -84,7 +70,7 @@ const handler = NextAuth({
             team_id: authData.team_id,
             user_id: authData.user_id,
             user_token: userToken,
-            bot_token: tokens.access_token
+            bot_token: botToken
           }
         }
       },
@@ -136,36 +122,50 @@ const handler = NextAuth({
                 email: user.email || '',
                 avatarUrl: user.image || '',
                 slackAccessToken: user.slackAccessToken,
+                hasSlackToken: !!user.slackAccessToken,
                 slackTeamId: user.slackTeamId,
                 timezone: user.timezone,
-                metadata: JSON.stringify({
+                metadata: {
                   teamName: user.slackTeamName,
-                  connectedAt: new Date().toISOString(),
-                  botToken: user.slackBotToken
-                })
+                  connectedAt: new Date().toISOString()
+                }
               }
             })
             console.log('User created successfully')
           } else {
             console.log('Updating existing user for Slack ID:', user.slackUserId)
-            // Update existing user with fresh token
+            // Update existing user with fresh token. The bot token lives on the
+            // installation, so drop any copy left in metadata by older sign-ins.
+            const metadata = userMetadata(existingUser.metadata)
+            delete metadata.botToken
             await prisma.user.update({
               where: { slackUserId: user.slackUserId },
               data: {
                 slackAccessToken: user.slackAccessToken,
+                hasSlackToken: !!user.slackAccessToken,
                 name: user.name || existingUser.name,
                 email: user.email || existingUser.email,
                 avatarUrl: user.image || existingUser.avatarUrl,
                 timezone: user.timezone || existingUser.timezone,
-                metadata: JSON.stringify({
-                  ...(existingUser.metadata ? JSON.parse(existingUser.metadata) : {}),
-                  lastConnected: new Date().toISOString(),
-                  botToken: user.slackBotToken
-                })
+                metadata: {
+                  ...metadata,
+                  lastConnected: new Date().toISOString()
+                }
               }
             })
             console.log('User updated successfully')
           }
+
+          // The workspace's tokens, used by the collectors for everyone in it
+          if (user.slackTeamId) {
+            await saveInstallation({
+              slackTeamId: user.slackTeamId,
+              teamName: user.slackTeamName,
+              botToken: user.slackBotToken,
+              userToken: user.slackAccessToken,
+              installerSlackUserId: user.slackUserId
+            })
+          }
           return true
         } catch (error) {
           console.error('Error storing user:', error)
@@ -185,7 +185,6 @@ const handler = NextAuth({
       if (account?.provider === 'slack') {
         token.slackUserId = user.slackUserId
         token.slackTeamId = user.slackTeamId
-        token.slackAccessToken = user.slackAccessToken
       }
       return token
     }
@@ -1,67 +1,108 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { InstallProvider } from '@slack/oauth'
-import { WebClient } from '@slack/web-api'
+import { InstallProvider, type Installation } from '@slack/oauth'
+import { slackApi, slackWebUrl, SLACK_API_BASE_URL } from '@/lib/slack'
+import { prismaInstallationStore } from '@/lib/installation-store'
+import { sealOptionalToken } from '@/lib/token-crypto'
+
+const SCOPES = ['users:read', 'users:read.email', 'channels:read', 'groups:read', 'im:read', 'mpim:read', 'dnd:read']
+const STATE_COOKIE = 'slack-install-state'
+const STATE_MAX_AGE_SECONDS = 10 * 60
 
 function createInstaller() {
   return new InstallProvider({
     clientId: process.env.SLACK_CLIENT_ID!,
     clientSecret: process.env.SLACK_CLIENT_SECRET!,
     stateSecret: process.env.SLACK_CLIENT_SECRET!,
-    installationStore: {
-      storeInstallation: async (installation) => {
-        // Store installation in database
-        console.log('Store installation:', installation)
-        return Promise.resolve()
-      },
-      fetchInstallation: async (installQuery) => {
-        // Fetch installation from database
-        console.log('Fetch installation:', installQuery)
-        // For now, throw error to indicate no installation found
-        throw new Error('Installation not found')
-      },
-      deleteInstallation: async (installQuery) => {
-        // Delete installation from database
-        console.log('Delete installation:', installQuery)
-        return Promise.resolve()
-      },
-    },
+    installationStore: prismaInstallationStore,
+    // Follow SLACK_API_BASE_URL, so installs also work against the local stand-in
+    authorizationUrl: slackWebUrl('/oauth/v2/authorize'),
+    clientOptions: { slackApiUrl: `${SLACK_API_BASE_URL}/` }
   })
 }
 
-export async function GET() {
-  const installer = createInstaller()
-  const url = await installer.generateInstallUrl({
-    scopes: ['users:read', 'users:read.email', 'channels:read', 'groups:read', 'im:read', 'mpim:read'],
-    userScopes: [],
-  })
-  
-  return NextResponse.redirect(url)
+function redirectUri(request: NextRequest) {
+  return `${process.env.NEXTAUTH_URL || new URL(request.url).origin}/api/auth/slack`
 }
 
-export async function POST(request: NextRequest) {
-  const url = new URL(request.url)
-  const code = url.searchParams.get('code')
-  
+// Add-to-Slack flow: a visit without a code starts it, Slack's redirect back with
+// a code finishes it by storing the installation and returning to the dashboard
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7)
+  const { searchParams } = new URL(request.url)
+  const code = searchParams.get('code')
+  const installer = createInstaller()
+
   if (!code) {
-    return NextResponse.json({ error: 'Missing code' }, { status: 400 })
+    const url = await installer.generateInstallUrl({
+      scopes: SCOPES,
+      userScopes: [],
+      redirectUri: redirectUri(request)
+    }, true)
+
+    // The state is also kept in a cookie so a callback only completes in the browser that started it
+    const response = NextResponse.redirect(url)
+    response.cookies.set(STATE_COOKIE, new URL(url).searchParams.get('state')!, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: STATE_MAX_AGE_SECONDS,
+      path: '/api/auth/slack'
+    })
+    return response
   }
-  
+
   try {
-    // Exchange code for tokens using Web API
-    const client = new WebClient()
-    const result = await client.oauth.v2.access({
+    const state = searchParams.get('state')
+    if (!state || state !== request.cookies.get(STATE_COOKIE)?.value) {
+      throw new Error('OAuth state does not match this browser')
+    }
+    await installer.stateStore!.verifyStateParam(new Date(), state)
+
+    const result = await slackApi('oauth.v2.access', null, {
       client_id: process.env.SLACK_CLIENT_ID!,
       client_secret: process.env.SLACK_CLIENT_SECRET!,
-      code: code,
+      code,
+      redirect_uri: redirectUri(request)
     })
-    
-    if (!result.ok) {
-      throw new Error('OAuth access failed')
+
+    // Seal the new tokens straight away - only the Slack gateway handles them in the clear
+    const botToken = sealOptionalToken(result.access_token)
+    const userToken = sealOptionalToken(result.authed_user?.access_token)
+
+    // oauth.v2.access doesn't include the bot id, auth.test does
+    const botId = botToken
+      ? (await slackApi('auth.test', botToken, {})).bot_id
+      : undefined
+
+    const installation: Installation = {
+      team: result.is_enterprise_install ? undefined : result.team,
+      enterprise: result.enterprise ?? undefined,
+      user: {
+        id: result.authed_user?.id ?? '',
+        token: userToken ?? undefined,
+        scopes: result.authed_user?.scope?.split(',')
+      },
+      bot: botToken ? {
+        token: botToken,
+        scopes: result.scope?.split(',') ?? [],
+        id: botId ?? '',
+        userId: result.bot_user_id ?? ''
+      } : undefined,
+      appId: result.app_id,
+      isEnterpriseInstall: !!result.is_enterprise_install,
+      authVersion: 'v2'
     }
-    
-    return NextResponse.json({ success: true, result })
+
+    await prismaInstallationStore.storeInstallation(installation)
+    console.log(`[${requestId}] ✅ Slack app installed for ${result.enterprise?.name || result.team?.name || 'unknown workspace'}`)
+
+    const response = NextResponse.redirect(new URL('/', request.url))
+    response.cookies.delete({ name: STATE_COOKIE, path: '/api/auth/slack' })
+    return response
   } catch (error) {
-    console.error('OAuth callback error:', error)
-    return NextResponse.json({ error: 'OAuth failed' }, { status: 500 })
+    console.error(`[${requestId}] ❌ Slack install callback failed:`, error)
+    const response = NextResponse.redirect(new URL('/auth/signin?error=SlackInstallFailed', request.url))
+    response.cookies.delete({ name: STATE_COOKIE, path: '/api/auth/slack' })
+    return response
   }
-}
\ No newline at end of file
+}
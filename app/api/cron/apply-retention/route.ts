@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRetention, getWorkspaceRetention } from '@/lib/retention'
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const requestId = Math.random().toString(36).substring(7)
+
+  console.log(`[${requestId}] 🚀 Starting presence log retention at ${new Date().toISOString()}`)
+
+  try {
+    if (!process.env.CRON_SECRET || process.env.CRON_SECRET.length < 32) {
+      console.error(`[${requestId}] ❌ Invalid cron configuration - secret too short or missing`)
+      return NextResponse.json({ error: 'Invalid cron configuration' }, { status: 500 })
+    }
+
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      console.warn(`[${requestId}] ⚠️ Unauthorized cron attempt from:`, request.headers.get('x-forwarded-for') || 'unknown')
+      return NextResponse.json({ error: 'Unauthorized - not from Vercel cron' }, { status: 401 })
+    }
+
+    const workspaces = await getWorkspaceRetention()
+    workspaces.forEach(workspace => {
+      console.log(`[${requestId}] 🗓️ Team ${workspace.slackTeamId || '(none)'}: ${workspace.enabled ? `keep ${workspace.rawRetentionDays} days (${workspace.source})` : 'retention disabled'}`)
+    })
+
+    // Whatever doesn't fit in this run is picked up by the next one
+    const result = await applyRetention(workspaces, { timeBudgetMs: 50 * 1000 })
+    const duration = Date.now() - startTime
+
+    console.log(`[${requestId}] 🎉 Retention finished in ${duration}ms: ${result.logsDeleted} logs pruned, ${result.bucketsWritten} buckets written, ${result.summariesRebuilt} summaries rebuilt${result.timedOut ? ' (paused)' : ''}`)
+
+    return NextResponse.json({
+      message: result.timedOut ? 'Retention paused - continues next run' : 'Retention completed',
+      requestId,
+      results: {
+        ...result,
+        duration: `${duration}ms`
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`[${requestId}] ❌ Retention failed after ${duration}ms:`, error)
+    return NextResponse.json({
+      error: 'Retention failed',
+      requestId,
+      details: errorMessage,
+      duration: `${duration}ms`
+    }, { status: 500 })
+  }
+}
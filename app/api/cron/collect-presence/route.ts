@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { SlackApiError } from '@/lib/slack'
+import { isPresenceWorkerActive } from '@/lib/presence-worker'
+import { collectDndStatus } from '@/lib/dnd'
+import { classifyPresence, collectionSlot, recordPresenceObservations, type PresenceObservation } from '@/lib/presence-intervals'
+import {
+  startCollectionRunsSafely,
+  finishCollectionRunSafely,
+  recordFailedCollectionRun,
+  noUsersCollectedError,
+  type CollectionUserResult
+} from '@/lib/collection-runs'
+import type { WorkspaceToken } from '@/lib/installations'
+import { isAuthError, replaceRevokedToken } from '@/lib/credential-health'
+import { getPresenceSource } from '@/lib/presence-sources'
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
@@ -14,6 +28,9 @@ export async function GET(request: NextRequest) {
     forwardedFor: request.headers.get('x-forwarded-for')
   })
 
+  // Ledger entries by workspace, once the workspaces are known. Each is removed as it's finished.
+  let runIds: Map<string, string> | null = null
+
   try {
     // Enhanced cron authentication security
     if (!process.env.CRON_SECRET || process.env.CRON_SECRET.length < 32) {
@@ -40,99 +57,95 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Database connection failed', details: errorMessage }, { status: 500 })
     }
 
-    // Get one user with a valid bot token to check all users' presence
-    console.log(`[${requestId}] 👤 Looking for admin user with access token...`)
-    const adminUser = await prisma.user.findFirst({
-      where: {
-        slackAccessToken: { not: null }
-      }
-    })
+    // Slack unless PRESENCE_SOURCE says otherwise. Each installed workspace is polled
+    // with its own token, failing over to another stored token when Slack has revoked the usual one.
+    const source = getPresenceSource()
+    console.log(`[${requestId}] 🏢 Looking up workspaces (presence source: ${source.kind})...`)
+    const installed = await source.listWorkspaces()
 
-    if (!adminUser) {
-      console.error(`[${requestId}] ❌ No authenticated users found in database`)
-      return NextResponse.json({ error: 'No authenticated users found' }, { status: 400 })
+    if (installed.length === 0) {
+      console.error(`[${requestId}] ❌ No Slack installations with working credentials found`)
+      await recordFailedCollectionRun(requestId, 'cron', 'No Slack installations with working credentials found')
+      return NextResponse.json({ error: 'No Slack installations with working credentials found' }, { status: 400 })
     }
-    
-    console.log(`[${requestId}] ✅ Found admin user: ${adminUser.name || adminUser.slackUserId}`)
 
-    // Get bot token from user metadata
-    let botToken = null
-    if (adminUser.metadata) {
-      try {
-        const metadata = JSON.parse(adminUser.metadata)
-        botToken = metadata.botToken
-      } catch {
-        console.warn('Could not parse user metadata for bot token')
+    // Every workspace's run goes in the ledger so collector outages show up as gaps for that workspace
+    const openRuns = await startCollectionRunsSafely(requestId, 'cron', installed.map(workspace => workspace.slackTeamId))
+    runIds = openRuns
+    const finishRun = async (slackTeamId: string, outcome: Parameters<typeof finishCollectionRunSafely>[1]) => {
+      await finishCollectionRunSafely(openRuns.get(slackTeamId) ?? null, outcome)
+      openRuns.delete(slackTeamId)
+    }
+
+    // The presence worker records transitions as they happen - polling is only the fallback
+    const workspaces: WorkspaceToken[] = []
+    for (const workspace of installed) {
+      if (await isPresenceWorkerActive(workspace.slackTeamId)) {
+        console.log(`[${requestId}] ⏭️ Presence worker is running for ${workspace.teamName || workspace.slackTeamId}, skipping polling`)
+        await finishRun(workspace.slackTeamId, { status: 'skipped', tokenType: workspace.tokenType })
+      } else {
+        workspaces.push(workspace)
       }
     }
 
-    // Use bot token if available, otherwise use user token
-    const token = botToken || adminUser.slackAccessToken
-    console.log(`[${requestId}] 🔑 Using token type for presence:`, botToken ? 'bot' : 'user')
+    if (workspaces.length === 0) {
+      return NextResponse.json({
+        message: 'Presence worker active - polling skipped',
+        requestId,
+        skipped: true,
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    console.log(`[${requestId}] 🔑 Polling ${workspaces.length} workspaces:`, workspaces.map(workspace => `${workspace.teamName || workspace.slackTeamId} (${workspace.tokenType})`).join(', '))
+    const workspacesByTeam = new Map(workspaces.map(workspace => [workspace.slackTeamId, workspace]))
 
-    // Get all active users (not just those with tokens)
+    // Get all active users (not just those with tokens) in the polled workspaces
     console.log(`[${requestId}] 👥 Fetching all active users...`)
     const users = await prisma.user.findMany({
       where: {
-        // Exclude users marked as inactive
-        OR: [
-          { metadata: null },
-          { metadata: { not: { contains: '"inactive":true' } } }
-        ]
+        slackTeamId: { in: [...workspacesByTeam.keys()] },
+        isActive: true
       }
     })
     console.log(`[${requestId}] ✅ Found ${users.length} users to monitor:`, users.map(u => u.name || u.slackUserId).join(', '))
 
-    // First, fetch all presence data from Slack API without holding DB connections
-    console.log(`[${requestId}] 📡 Fetching presence data from Slack API for ${users.length} users...`)
+    // First, fetch all presence data from the source without holding DB connections
+    console.log(`[${requestId}] 📡 Fetching presence data from ${source.kind} for ${users.length} users...`)
     const presencePromises = users.map(async (user, index) => {
       try {
         console.log(`[${requestId}] 📞 API call ${index + 1}/${users.length}: Fetching presence for ${user.name || user.slackUserId}`)
         
-        const presenceResponse = await fetch('https://slack.com/api/users.getPresence', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            user: user.slackUserId
-          })
-        })
-
-        if (!presenceResponse.ok) {
-          console.error(`[${requestId}] ❌ HTTP error for user ${user.name || user.slackUserId}: ${presenceResponse.status} ${presenceResponse.statusText}`)
-          return { user, error: `HTTP ${presenceResponse.status}`, success: false }
-        }
-
-        const presenceData = await presenceResponse.json()
+        const presenceData = await source.getPresence(user.slackUserId, workspacesByTeam.get(user.slackTeamId!)!)
         console.log(`[${requestId}] 📊 API response for ${user.name || user.slackUserId}:`, {
-          ok: presenceData.ok,
           presence: presenceData.presence,
-          error: presenceData.error,
-          warning: presenceData.warning
+          online: presenceData.online
         })
         
-        return { user, presenceData, success: presenceData.ok }
+        return { user, presenceData, success: true }
       } catch (error) {
+        // Slack error codes (missing_scope, ratelimited, ...) come through as the message
         const errorMessage = error instanceof Error ? error.message : String(error)
-        console.error(`[${requestId}] ❌ Error fetching presence for user ${user.id}: ${errorMessage}`)
-        return { user, error: errorMessage, success: false }
+        console.error(`[${requestId}] ❌ Error fetching presence for user ${user.id}: ${errorMessage}${error instanceof SlackApiError ? ` (${error.method})` : ''}`)
+        return { user, error: errorMessage, authFailed: isAuthError(error), success: false }
       }
     })
 
-    // Wait for all Slack API calls to complete
-    console.log(`[${requestId}] ⏳ Waiting for all ${users.length} Slack API calls to complete...`)
+    // Wait for all presence lookups to complete
+    console.log(`[${requestId}] ⏳ Waiting for all ${users.length} presence lookups to complete...`)
     const presenceResults = await Promise.all(presencePromises)
-    console.log(`[${requestId}] ✅ All Slack API calls completed`)
+    console.log(`[${requestId}] ✅ All presence lookups completed`)
 
-    // Now batch insert all presence logs to database
-    const presenceLogData = []
+    // Now fold all observations into presence intervals. They're stamped with the
+    // slot this run was scheduled for, so a retry or overlapping run repeats it exactly.
+    const observedAt = collectionSlot(new Date(startTime))
+    const observations: PresenceObservation[] = []
     const results = []
 
     for (const result of presenceResults) {
       if (result.success && result.presenceData) {
-        const actualStatus = result.presenceData.presence === 'active' ? 'active' : 'away'
+        // Tell idle, set-away and disconnected apart when Slack gives us the detail
+        const actualStatus = classifyPresence(result.presenceData)
         
         console.log(`🟢 Presence check for ${result.user.name || result.user.slackUserId}: ${JSON.stringify({
           presence: result.presenceData.presence,
@@ -144,45 +157,23 @@ export async function GET(request: NextRequest) {
           actualStatus
         })}`)
 
-        presenceLogData.push({
+        observations.push({
           userId: result.user.id,
           status: actualStatus,
-          timestamp: new Date(),
-          metadata: JSON.stringify({
-            online: result.presenceData.online ?? null,
-            auto_away: result.presenceData.auto_away ?? null,
-            manual_away: result.presenceData.manual_away ?? null,
-            connection_count: result.presenceData.connection_count ?? null,
-            last_activity: result.presenceData.last_activity ?? null,
-            raw_presence: result.presenceData.presence ?? null,
-            full_response: result.presenceData
-          })
+          observedAt,
+          source: 'poll'
         })
 
         results.push({
           userId: result.user.id,
-          status: result.presenceData.presence,
+          status: actualStatus,
           success: true
         })
       } else {
-        const error = result.error || result.presenceData?.error || 'Unknown error'
+        // Nothing is recorded: a failed call says nothing about whether they were online
+        const error = result.error || 'Unknown error'
         console.error(`🔴 Failed to get presence for user ${result.user.name || result.user.slackUserId} (${result.user.id}): ${error}`)
         
-        // For users without tokens, still create a presence log with offline status
-        // This ensures they show up in the UI with some data
-        if (error.includes('missing_scope') || error.includes('not_authed') || error.includes('account_inactive')) {
-          console.log(`📝 Creating offline log for user without proper access: ${result.user.name || result.user.slackUserId}`)
-          presenceLogData.push({
-            userId: result.user.id,
-            status: 'offline',
-            timestamp: new Date(),
-            metadata: JSON.stringify({
-              error: error,
-              note: 'User lacks proper Slack authentication or permissions'
-            })
-          })
-        }
-        
         results.push({
           userId: result.user.id,
           error,
@@ -191,36 +182,53 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Batch insert all presence logs at once
-    if (presenceLogData.length > 0) {
-      console.log(`[${requestId}] 💾 Attempting to insert ${presenceLogData.length} presence logs to database...`)
-      console.log(`[${requestId}] 📝 Sample data structure:`, JSON.stringify(presenceLogData[0], null, 2))
+    // A token revoked mid-run: drop it and line up the next one for the following run
+    const revokedTeams = new Map<string, string>()
+    for (const result of presenceResults) {
+      if (result.authFailed && !revokedTeams.has(result.user.slackTeamId!)) {
+        revokedTeams.set(result.user.slackTeamId!, result.error!)
+      }
+    }
+    for (const [slackTeamId, reason] of revokedTeams) {
+      await replaceRevokedToken(workspacesByTeam.get(slackTeamId)!, reason)
+    }
+
+    // Extend unchanged intervals and open new ones in a single transaction
+    let writeError: string | undefined
+    if (observations.length > 0) {
+      console.log(`[${requestId}] 💾 Recording ${observations.length} presence observations...`)
       
       try {
-        const insertResult = await prisma.presenceLog.createMany({
-          data: presenceLogData,
-          skipDuplicates: true
-        })
-        console.log(`[${requestId}] ✅ Successfully inserted ${insertResult.count} presence logs out of ${presenceLogData.length} prepared`)
-        
-        if (insertResult.count < presenceLogData.length) {
-          console.warn(`[${requestId}] ⚠️ Some records were skipped: ${presenceLogData.length - insertResult.count} duplicates or constraint violations`)
-        }
+        const intervalResult = await recordPresenceObservations(observations)
+        console.log(`[${requestId}] ✅ Extended ${intervalResult.extended} presence intervals and opened ${intervalResult.opened}`)
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
         const errorCode = error && typeof error === 'object' && 'code' in error ? (error as { code: string }).code : undefined
         const errorMeta = error && typeof error === 'object' && 'meta' in error ? (error as { meta: unknown }).meta : undefined
-        console.error(`[${requestId}] ❌ Database insert failed:`, {
+        writeError = errorMessage
+        console.error(`[${requestId}] ❌ Database write failed:`, {
           error: errorMessage,
           code: errorCode,
           meta: errorMeta,
           stack: error instanceof Error ? error.stack : undefined
         })
-        console.error(`[${requestId}] 📋 Failed presence data sample:`, JSON.stringify(presenceLogData[0], null, 2))
-        console.error(`[${requestId}] 📋 All failed data:`, JSON.stringify(presenceLogData, null, 2))
+        console.error(`[${requestId}] 📋 Failed observations:`, JSON.stringify(observations, null, 2))
       }
     } else {
-      console.warn(`[${requestId}] ⚠️ No presence data to insert`)
+      console.warn(`[${requestId}] ⚠️ No presence data to record`)
+    }
+
+    // DND comes from dnd.teamInfo in batches. Missing dnd:read shouldn't fail the presence run.
+    // The simulator has no DND to report.
+    let dndInCount: number | null = null
+    for (const workspace of source.kind === 'slack' ? workspaces : []) {
+      try {
+        const dndResult = await collectDndStatus(users.filter(user => user.slackTeamId === workspace.slackTeamId), workspace, observedAt)
+        dndInCount = (dndInCount ?? 0) + dndResult.inDnd
+        console.log(`[${requestId}] 🌙 ${workspace.teamName || workspace.slackTeamId}: ${dndResult.inDnd} users in Do Not Disturb (extended ${dndResult.extended} DND intervals, opened ${dndResult.opened})`)
+      } catch (error) {
+        console.warn(`[${requestId}] ⚠️ Could not collect DND status for ${workspace.slackTeamId}:`, error instanceof Error ? error.message : String(error))
+      }
     }
 
     const successCount = results.filter(r => r.success).length
@@ -238,13 +246,35 @@ export async function GET(request: NextRequest) {
       console.log(`[${requestId}] ❌ Error details:`, errorDetails)
     }
 
+    // A workspace whose token was revoked mid-run, or where no user could be polled,
+    // wasn't really collected, so it gets a failed run
+    const teamByUser = new Map(users.map(user => [user.id, user.slackTeamId!]))
+    for (const workspace of workspaces) {
+      const userResults: CollectionUserResult[] = results
+        .filter(r => teamByUser.get(r.userId) === workspace.slackTeamId)
+        .map(r => ({
+          userId: r.userId,
+          ok: r.success,
+          ...(r.error ? { error: r.error } : {})
+        }))
+      const error = writeError ?? revokedTeams.get(workspace.slackTeamId) ?? noUsersCollectedError(userResults)
+      await finishRun(workspace.slackTeamId, {
+        status: error ? 'failed' : 'completed',
+        tokenType: workspace.tokenType,
+        userResults,
+        error
+      })
+    }
+
     return NextResponse.json({
       message: 'Presence collection completed',
       requestId,
       results: {
+        workspaces: workspaces.length,
         total: users.length,
         successful: successCount,
         errors: errorCount,
+        inDnd: dndInCount,
         duration: `${duration}ms`
       },
       timestamp: new Date().toISOString()
@@ -258,6 +288,13 @@ export async function GET(request: NextRequest) {
       stack: error instanceof Error ? error.stack : undefined,
       name: error instanceof Error ? error.name : 'Unknown'
     })
+    if (runIds) {
+      for (const runId of runIds.values()) {
+        await finishCollectionRunSafely(runId, { status: 'failed', error: errorMessage })
+      }
+    } else {
+      await recordFailedCollectionRun(requestId, 'cron', errorMessage)
+    }
     return NextResponse.json({ 
       error: 'Internal server error',
       requestId,
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { finalizeDailySummaries } from '@/lib/daily-summaries'
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const requestId = Math.random().toString(36).substring(7)
+
+  console.log(`[${requestId}] 🚀 Starting daily summary finalization at ${new Date().toISOString()}`)
+
+  try {
+    if (!process.env.CRON_SECRET || process.env.CRON_SECRET.length < 32) {
+      console.error(`[${requestId}] ❌ Invalid cron configuration - secret too short or missing`)
+      return NextResponse.json({ error: 'Invalid cron configuration' }, { status: 500 })
+    }
+
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      console.warn(`[${requestId}] ⚠️ Unauthorized cron attempt from:`, request.headers.get('x-forwarded-for') || 'unknown')
+      return NextResponse.json({ error: 'Unauthorized - not from Vercel cron' }, { status: 401 })
+    }
+
+    // Runs hourly so each timezone's day is finalized soon after it ends locally
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: true
+      },
+      select: { id: true, timezone: true, slackTeamId: true, createdAt: true }
+    })
+    console.log(`[${requestId}] 👥 Checking daily summaries for ${users.length} users`)
+
+    const totals = await finalizeDailySummaries(users)
+    const duration = Date.now() - startTime
+
+    console.log(`[${requestId}] 🎉 Daily summaries finalized in ${duration}ms: ${totals.created} created, ${totals.updated} updated, ${totals.unchanged} already final, ${totals.skipped} from before tracking started`)
+
+    return NextResponse.json({
+      message: 'Daily summary finalization completed',
+      requestId,
+      results: {
+        users: users.length,
+        ...totals,
+        duration: `${duration}ms`
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`[${requestId}] ❌ Daily summary finalization failed after ${duration}ms:`, error)
+    return NextResponse.json({
+      error: 'Daily summary finalization failed',
+      requestId,
+      details: errorMessage,
+      duration: `${duration}ms`
+    }, { status: 500 })
+  }
+}
@@ -1,32 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-
-interface SlackMember {
-  id: string
-  deleted?: boolean
-  is_restricted?: boolean
-  is_ultra_restricted?: boolean
-  is_bot?: boolean
-  real_name?: string
-  name?: string
-  profile?: {
-    email?: string
-    image_192?: string
-    display_name?: string
-    status_text?: string
-    status_emoji?: string
-    title?: string
-  }
-  tz?: string
-  is_admin?: boolean
-  is_owner?: boolean
-}
-
-interface SlackUsersResponse {
-  ok: boolean
-  members: SlackMember[]
-  error?: string
-}
+import { syncWorkspaceMembers, type SlackMember, type WorkspaceSyncResult } from '@/lib/slack-users'
+import { SlackApiError } from '@/lib/slack'
+import { getPresenceSource } from '@/lib/presence-sources'
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
@@ -67,201 +43,76 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Database connection failed', details: errorMessage }, { status: 500 })
     }
 
-    // Get one user with a valid bot token to fetch team members
-    console.log(`[${requestId}] 👤 Looking for admin user with access token...`)
-    const adminUser = await prisma.user.findFirst({
-      where: {
-        slackAccessToken: { not: null }
-      }
-    })
-
-    if (!adminUser) {
-      console.error(`[${requestId}] ❌ No authenticated users found in database`)
-      return NextResponse.json({ error: 'No authenticated users found' }, { status: 400 })
-    }
-    
-    console.log(`[${requestId}] ✅ Found admin user: ${adminUser.name || adminUser.slackUserId}`)
-
-    // Get bot token from user metadata
-    let botToken = null
-    if (adminUser.metadata) {
-      try {
-        const metadata = JSON.parse(adminUser.metadata)
-        botToken = metadata.botToken
-      } catch {
-        console.warn('Could not parse user metadata for bot token')
-      }
-    }
-
-    // Use bot token if available, otherwise use user token
-    const token = botToken || adminUser.slackAccessToken
-    console.log(`[${requestId}] 🔑 Using token type:`, botToken ? 'bot' : 'user')
-
-    // Fetch all team members
-    console.log(`[${requestId}] 📡 Fetching team members from Slack API...`)
-    const usersResponse = await fetch('https://slack.com/api/users.list', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      }
-    })
-
-    if (!usersResponse.ok) {
-      console.error(`[${requestId}] ❌ HTTP error from Slack API: ${usersResponse.status} ${usersResponse.statusText}`)
-      return NextResponse.json({ error: `HTTP error: ${usersResponse.status}` }, { status: 500 })
-    }
-
-    const usersData: SlackUsersResponse = await usersResponse.json()
+    // Slack unless PRESENCE_SOURCE says otherwise. Each installed workspace is synced
+    // with its own token, or a fallback if that was revoked.
+    const source = getPresenceSource()
+    const workspaces = await source.listWorkspaces()
 
-    if (!usersData.ok) {
-      console.error(`[${requestId}] ❌ Failed to fetch team members:`, usersData.error)
-      return NextResponse.json({ error: `Slack API error: ${usersData.error}` }, { status: 400 })
+    if (workspaces.length === 0) {
+      console.error(`[${requestId}] ❌ No Slack installations found`)
+      return NextResponse.json({ error: 'No Slack installations with working credentials found' }, { status: 400 })
     }
 
-    console.log(`[${requestId}] ✅ Found ${usersData.members.length} team members from Slack`)
+    console.log(`[${requestId}] 🏢 Syncing ${workspaces.length} workspaces: ${workspaces.map(workspace => workspace.teamName || workspace.slackTeamId).join(', ')}`)
 
-    // Filter active users first to reduce noise in logs
-    const activeMembers = usersData.members.filter(member => {
-      const shouldSkip = member.deleted || 
-          member.is_restricted || 
-          member.is_ultra_restricted ||
-          (member.is_bot && member.name !== 'team analytics') || 
-          member.id === 'USLACKBOT'
-      
-      return !shouldSkip
-    })
+    const workspaceResults: Array<WorkspaceSyncResult | { slackTeamId: string; error: string }> = []
+    let rateLimited = false
 
-    console.log(`Processing ${activeMembers.length} active users (skipped ${usersData.members.length - activeMembers.length} inactive users)`)
+    for (const workspace of workspaces) {
+      console.log(`[${requestId}] 🔑 ${workspace.teamName || workspace.slackTeamId}: using token type`, workspace.tokenType)
 
-    // Process users in batches to avoid overwhelming the database connection pool
-    const batchSize = 5
-    const results = []
-    
-    for (let i = 0; i < activeMembers.length; i += batchSize) {
-      const batch = activeMembers.slice(i, i + batchSize)
-      console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(activeMembers.length / batchSize)}`)
-      
-      const batchPromises = batch.map(async (member) => {
+      // Fetch all team members
+      console.log(`[${requestId}] 📡 Fetching team members from ${source.kind}...`)
+      let members: SlackMember[]
       try {
-        // Check if user exists in our database
-        const existingUser = await prisma.user.findUnique({
-          where: { slackUserId: member.id }
-        })
-
-        const userData = {
-          slackUserId: member.id,
-          name: member.real_name || member.name || 'Unknown',
-          email: member.profile?.email || '',
-          avatarUrl: member.profile?.image_192 || '',
-          timezone: member.tz || null,
-          slackTeamId: adminUser.slackTeamId,
-          metadata: JSON.stringify({
-            profile: {
-              display_name: member.profile?.display_name,
-              status_text: member.profile?.status_text,
-              status_emoji: member.profile?.status_emoji,
-              title: member.profile?.title
-            },
-            is_admin: member.is_admin,
-            is_owner: member.is_owner,
-            syncedAt: new Date().toISOString(),
-            // Remove inactive flag for active users
-            inactive: false
-          })
-        }
-
-        if (existingUser) {
-          // Update existing user (but preserve access token if they have one)
-          await prisma.user.update({
-            where: { id: existingUser.id },
-            data: {
-              name: userData.name,
-              email: userData.email || existingUser.email,
-              avatarUrl: userData.avatarUrl || existingUser.avatarUrl,
-              timezone: userData.timezone || existingUser.timezone,
-              metadata: userData.metadata
-            }
-          })
-          console.log(`Updated user: ${userData.name} (${userData.timezone || 'no timezone'})`)
-          return { userId: existingUser.id, action: 'updated', name: userData.name, timezone: userData.timezone }
-        } else {
-          // Create new user (without access token - they'll need to sign in to get presence monitoring)
-          const newUser = await prisma.user.create({
-            data: userData
-          })
-          console.log(`Created user: ${userData.name} (${userData.timezone || 'no timezone'})`)
-          return { userId: newUser.id, action: 'created', name: userData.name, timezone: userData.timezone }
-        }
+        members = await source.listMembers(workspace)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        console.error(`[${requestId}] ❌ Failed to fetch team members for ${workspace.slackTeamId}:`, errorMessage)
+        if (error instanceof SlackApiError && error.code === 'ratelimited') rateLimited = true
+        workspaceResults.push({ slackTeamId: workspace.slackTeamId, error: `Slack API error: ${errorMessage}` })
+        continue
+      }
 
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error)
-          console.error(`Error processing user ${member.name} (${member.id}):`, error)
-          return { userId: member.id, action: 'error', error: errorMessage }
-        }
-      })
+      console.log(`[${requestId}] ✅ Found ${members.length} team members from ${source.kind}`)
 
-      // Wait for this batch to complete before moving to the next
-      const batchResults = await Promise.all(batchPromises)
-      results.push(...batchResults)
-    }
+      const result = await syncWorkspaceMembers(members, workspace.slackTeamId)
+      workspaceResults.push(result)
 
-    // Clean up users who are no longer in the Slack workspace
-    const activeSlackUserIds = activeMembers.map(member => member.id)
-    
-    const inactiveUsers = await prisma.user.findMany({
-      where: {
-        slackUserId: { notIn: activeSlackUserIds },
-        slackTeamId: adminUser.slackTeamId
+      // Log any errors for debugging
+      if (result.errors > 0) {
+        console.log(`[${requestId}] ❌ Error details:`, result.errorDetails)
       }
-    })
-
-    // Mark inactive users in parallel (don't delete, in case they come back)
-    const inactiveUserPromises = inactiveUsers.map(async (inactiveUser) => {
-      await prisma.user.update({
-        where: { id: inactiveUser.id },
-        data: {
-          metadata: JSON.stringify({
-            ...(inactiveUser.metadata ? JSON.parse(inactiveUser.metadata) : {}),
-            inactive: true,
-            inactiveSince: new Date().toISOString()
-          })
-        }
-      })
-      console.log(`Marked user as inactive: ${inactiveUser.name} (${inactiveUser.slackUserId})`)
-    })
+    }
 
-    if (inactiveUserPromises.length > 0) {
-      await Promise.all(inactiveUserPromises)
+    const synced = workspaceResults.filter((result): result is WorkspaceSyncResult => !('error' in result))
+    if (synced.length === 0) {
+      const errorMessage = workspaceResults.map(result => 'error' in result ? result.error : '').join('; ')
+      return NextResponse.json({ error: errorMessage }, { status: rateLimited ? 429 : 400 })
     }
 
-    const created = results.filter(r => r.action === 'created').length
-    const updated = results.filter(r => r.action === 'updated').length
-    const errors = results.filter(r => r.action === 'error').length
+    const created = synced.reduce((sum, result) => sum + result.created, 0)
+    const updated = synced.reduce((sum, result) => sum + result.updated, 0)
+    const errors = synced.reduce((sum, result) => sum + result.errors, 0)
+    const markedInactive = synced.reduce((sum, result) => sum + result.markedInactive, 0)
     const duration = Date.now() - startTime
 
-    console.log(`[${requestId}] 🎉 Company-wide sync completed in ${duration}ms: ${created} created, ${updated} updated, ${errors} errors, ${inactiveUsers.length} marked inactive`)
-    
-    // Log any errors for debugging
-    if (errors > 0) {
-      const errorDetails = results.filter(r => r.action === 'error').map(r => ({
-        userId: r.userId,
-        error: r.error
-      }))
-      console.log(`[${requestId}] ❌ Error details:`, errorDetails)
-    }
+    console.log(`[${requestId}] 🎉 Company-wide sync completed in ${duration}ms: ${created} created, ${updated} updated, ${errors} errors, ${markedInactive} marked inactive`)
 
     return NextResponse.json({
       message: 'Company-wide user sync completed',
       requestId,
       results: {
-        total: results.length,
+        total: synced.reduce((sum, result) => sum + result.total, 0),
         created,
         updated,
         errors,
-        markedInactive: inactiveUsers.length,
+        markedInactive,
         duration: `${duration}ms`
       },
+      workspaces: workspaceResults.map(result => 'error' in result
+        ? result
+        : { slackTeamId: result.slackTeamId, total: result.total, created: result.created, updated: result.updated, errors: result.errors, markedInactive: result.markedInactive }),
       timestamp: new Date().toISOString()
     })
 
@@ -1,20 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
 import { prisma } from '@/lib/db'
-
-interface PresenceBlock {
-  hour: number
-  quarter: number
-  blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
-  onlinePercentage: number
-  activeMinutes: number
-  totalMinutes: number
-  messageCount: number
-  hasMessages: boolean
-  blockStart: string
-  blockEnd: string
-}
-
+import { getMessageTimesByUser } from '@/lib/message-activity'
+import { getPresenceIntervalsByUser, type PresenceState } from '@/lib/presence-intervals'
+import { findCollectorGaps } from '@/lib/collection-runs'
+import { getDndSpansByUser } from '@/lib/dnd'
+import { buildDayTimeline, summarizeTimeline, type PresenceBlock } from '@/lib/presence-timeline'
+import { getActiveRateLimit } from '@/lib/slack'
+import { getStatusHistoryByUser } from '@/lib/status-history'
+import { getWorkspacesForSlackUser } from '@/lib/installations'
+import { getCredentialProblems } from '@/lib/credential-health'
+import {
+  classifyStatus,
+  getStatusRulesByTeam,
+  isTimeOffDay,
+  statusCategoryMinutes,
+  type StatusCategory
+} from '@/lib/status-classifier'
 
 interface UserPresenceData {
   id: string
@@ -24,8 +26,18 @@ interface UserPresenceData {
   slackUserId: string
   timeline: PresenceBlock[]
   totalActiveMinutes: number
+  trackedMinutes: number
+  stateMinutes: Partial<Record<PresenceState, number>>
+  dndMinutes: number
   messageCount: number
   isCurrentlyOnline: boolean
+  // Latest presence state, or null if it hasn't been confirmed in the last 15 minutes
+  currentState: PresenceState | null
+  // Category of the custom status they have set right now, if it has one
+  currentStatusCategory: StatusCategory | null
+  categoryMinutes: Partial<Record<StatusCategory, number>>
+  // PTO or sick for most of the day - left out of the dashboard's averages
+  timeOff: boolean
   lastActiveTime: string | null
 }
 
@@ -33,6 +45,7 @@ export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const startParam = searchParams.get('start')
   const endParam = searchParams.get('end')
+  const teamParam = searchParams.get('teamId')
   
   try {
     const startTime = Date.now()
@@ -60,13 +73,23 @@ export async function GET(request: NextRequest) {
     
     console.log(`📊 Date range: ${todayStart.toISOString()} to ${todayEnd.toISOString()}`)
 
-    // Get all active users
+    // Scope to one workspace the signed-in user belongs to: the one asked for, or their own
+    const session = await getToken({ req: request })
+    if (!session?.slackUserId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const slackTeamId = teamParam || session.slackTeamId
+    const workspaces = await getWorkspacesForSlackUser(session.slackUserId)
+    if (!slackTeamId || !workspaces.some(workspace => workspace.slackTeamId === slackTeamId)) {
+      return NextResponse.json({ error: 'Not a member of that workspace' }, { status: 403 })
+    }
+
+    // Get all active users in the workspace
     const users = await prisma.user.findMany({
       where: {
-        OR: [
-          { metadata: null },
-          { metadata: { not: { contains: '"inactive":true' } } }
-        ]
+        slackTeamId,
+        isActive: true
       },
       select: {
         id: true,
@@ -74,6 +97,8 @@ export async function GET(request: NextRequest) {
         avatarUrl: true,
         timezone: true,
         slackUserId: true,
+        slackTeamId: true,
+        createdAt: true,
       },
     })
 
@@ -87,113 +112,58 @@ export async function GET(request: NextRequest) {
     const userIds = users.map(u => u.id)
     console.log(`📊 Starting presence data fetch for ${userIds.length} users`)
 
-    // First, get today's data only (faster query)
+    // Presence intervals overlapping the selected range
     const queryStart = Date.now()
-    const todayPresenceLogs = await prisma.presenceLog.findMany({
-      where: {
-        userId: { in: userIds },
-        timestamp: {
-          gte: todayStart,
-          lte: todayEnd,
-        },
-      },
-      select: {
-        userId: true,
-        status: true,
-        timestamp: true,
-      },
-      orderBy: [
-        { userId: 'asc' },
-        { timestamp: 'asc' }
-      ],
-    })
-    console.log(`📊 Today's data query took ${Date.now() - queryStart}ms (${todayPresenceLogs.length} records)`)
+    const presenceByUser = await getPresenceIntervalsByUser(userIds, todayStart, todayEnd)
+    const intervalCount = [...presenceByUser.values()].reduce((sum, intervals) => sum + intervals.length, 0)
+    console.log(`📊 Presence interval query took ${Date.now() - queryStart}ms (${intervalCount} intervals)`)
 
-    console.log(`📊 Total records: ${todayPresenceLogs.length}`)
+    const messageQueryStart = Date.now()
+    const messagesByUser = await getMessageTimesByUser(userIds, todayStart, todayEnd)
+    console.log(`📊 Message activity query took ${Date.now() - messageQueryStart}ms`)
 
-    // Group presence logs by user for efficient processing
-    const presenceByUser = new Map<string, Array<{ timestamp: Date, status: string }>>()
+    // Windows where the collector wasn't running, so they aren't shown as the user being offline
+    const gaps = await findCollectorGaps(slackTeamId, todayStart, todayEnd)
 
-    const processingStart = Date.now()
-    todayPresenceLogs.forEach(log => {
-      if (!presenceByUser.has(log.userId)) {
-        presenceByUser.set(log.userId, [])
-      }
-      presenceByUser.get(log.userId)!.push({
-        timestamp: log.timestamp,
-        status: log.status
-      })
-    })
-    console.log(`📊 Data grouping took ${Date.now() - processingStart}ms`)
+    // Do Not Disturb spans, shown as an overlay on the presence blocks
+    const dndByUser = await getDndSpansByUser(userIds, todayStart, todayEnd)
+
+    // Custom statuses, classified so PTO and sick days can be left out of averages
+    const statusesByUser = await getStatusHistoryByUser(userIds, todayStart, todayEnd)
+    const statusRulesByTeam = await getStatusRulesByTeam(users.map(user => user.slackTeamId))
+    const dayEnd = new Date(todayStart.getTime() + 24 * 60 * 60 * 1000)
 
     // Process data for each user
     const userData: UserPresenceData[] = users.map(user => {
-      const userPresenceLogs = presenceByUser.get(user.id) || []
-      
-      // Today's timeline data
-      const todayLogs = userPresenceLogs.filter(log => 
-        log.timestamp >= todayStart && log.timestamp <= todayEnd
-      )
+      const userIntervals = presenceByUser.get(user.id) || []
+      const userMessages = messagesByUser.get(user.id) || []
 
-      // Check if user is currently online (last 15 minutes)
+      // Check if user is currently online (status confirmed in the last 15 minutes)
       const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000)
-      const recentLogs = todayLogs.filter(log => log.timestamp >= fifteenMinutesAgo)
-      const mostRecentLog = recentLogs.length > 0 ? recentLogs[recentLogs.length - 1] : null
-      const isCurrentlyOnline = mostRecentLog?.status === 'active'
+      const mostRecentInterval = userIntervals.length > 0 ? userIntervals[userIntervals.length - 1] : null
+      const currentState = mostRecentInterval && mostRecentInterval.endedAt >= fifteenMinutesAgo
+        ? mostRecentInterval.status as PresenceState
+        : null
+      const isCurrentlyOnline = currentState === 'active'
 
       // Find last active time
-      const allActiveLogs = todayLogs.filter(log => log.status === 'active')
-      const lastActiveTime = allActiveLogs.length > 0 
-        ? allActiveLogs[allActiveLogs.length - 1].timestamp 
+      const activeIntervals = userIntervals.filter(interval => interval.status === 'active')
+      const lastActiveTime = activeIntervals.length > 0
+        ? activeIntervals[activeIntervals.length - 1].endedAt
         : null
 
-      // Generate today's timeline (96 15-minute blocks) 
-      // Create blocks aligned to clean 15-minute boundaries for the selected day
+      // Generate today's timeline (96 15-minute blocks)
       // The todayStart already represents the correct local time boundaries from the client
-      
-      const todayTimeline: PresenceBlock[] = []
-      
-      for (let hour = 0; hour < 24; hour++) {
-        for (let quarter = 0; quarter < 4; quarter++) {
-          // Calculate block boundaries directly from todayStart which preserves the client's timezone intent
-          const blockStart = new Date(todayStart.getTime() + (hour * 60 + quarter * 15) * 60 * 1000)
-          const blockEnd = new Date(blockStart.getTime() + 15 * 60 * 1000)
-          
-          const blockLogs = todayLogs.filter(log => 
-            log.timestamp >= blockStart && log.timestamp < blockEnd
-          )
-          
-          const activeMinutes = blockLogs.filter(log => log.status === 'active').length
-          const onlinePercentage = Math.round((activeMinutes / 15) * 100)
-          
-          let status: 'online' | 'offline' | 'no-data'
-          if (blockLogs.length === 0) {
-            status = 'no-data'
-          } else if (activeMinutes >= 6) { // Require 6+ active minutes in 15-minute block
-            status = 'online'
-          } else {
-            status = 'offline'
-          }
-          
-          todayTimeline.push({
-            hour,
-            quarter,
-            blockIndex: hour * 4 + quarter,
-            status,
-            onlinePercentage,
-            activeMinutes,
-            totalMinutes: 15,
-            messageCount: 0,
-            hasMessages: false,
-            blockStart: blockStart.toISOString(),
-            blockEnd: blockEnd.toISOString(),
-          })
-        }
-      }
-
+      const todayTimeline = buildDayTimeline(todayStart, userIntervals, userMessages, dndByUser.get(user.id) || [], {
+        trackedSince: user.createdAt,
+        gaps
+      })
+      const { totalActiveMinutes, trackedMinutes, messageCount, stateMinutes, dndMinutes } = summarizeTimeline(todayTimeline)
 
-      // Calculate total active minutes for today
-      const totalActiveMinutes = todayTimeline.reduce((sum, block) => sum + block.activeMinutes, 0)
+      const userStatuses = statusesByUser.get(user.id) || []
+      const statusRules = statusRulesByTeam.get(user.slackTeamId || '') || []
+      const categoryMinutes = statusCategoryMinutes(userStatuses, statusRules, todayStart, dayEnd)
+      const currentStatus = userStatuses.find(status => !status.endedAt || status.endedAt > new Date())
 
       return {
         id: user.id,
@@ -203,21 +173,42 @@ export async function GET(request: NextRequest) {
         slackUserId: user.slackUserId,
         timeline: todayTimeline,
         totalActiveMinutes,
-        messageCount: 0,
+        trackedMinutes,
+        stateMinutes,
+        dndMinutes,
+        messageCount,
         isCurrentlyOnline,
+        currentState,
+        currentStatusCategory: currentStatus ? classifyStatus(currentStatus, statusRules) : null,
+        categoryMinutes,
+        timeOff: isTimeOffDay(categoryMinutes, todayStart, dayEnd),
         lastActiveTime: lastActiveTime?.toISOString() || null,
       }
     })
 
+    // Let the dashboard know when collection for this workspace is being held back by Slack
+    const rateLimit = await getActiveRateLimit(slackTeamId)
+
+    // ...or when a workspace lost its token, so missing data isn't mistaken for everyone being offline
+    const credentialProblems = await getCredentialProblems([slackTeamId])
+
     console.log(`📊 Total API processing time: ${Date.now() - startTime}ms`)
 
     const response = NextResponse.json({
       success: true,
       data: userData,
+      rateLimited: !!rateLimit,
+      rateLimitedUntil: rateLimit?.limitedUntil.toISOString() || null,
+      credentialProblems: credentialProblems.map(problem => ({
+        slackTeamId: problem.slackTeamId,
+        status: problem.status,
+        message: problem.message,
+        since: problem.changedAt.toISOString()
+      })),
     })
     
-    // Cache for 30 seconds with stale-while-revalidate
-    response.headers.set('Cache-Control', 'public, max-age=30, stale-while-revalidate=60')
+    // Cache for 30 seconds with stale-while-revalidate - privately, since it depends on who is asking
+    response.headers.set('Cache-Control', 'private, max-age=30, stale-while-revalidate=60')
     
     return response
 
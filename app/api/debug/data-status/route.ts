@@ -11,29 +11,35 @@ export async function GET() {
     // Get users with tokens (who can be monitored)
     const usersWithTokens = await prisma.user.count({
       where: {
-        slackAccessToken: { not: null }
+        hasSlackToken: true
       }
     })
     
-    // Get recent presence data (last hour)
+    // Installed workspaces and whether each has a token the collectors can use
+    const installations = await prisma.installation.findMany({
+      select: { slackTeamId: true, teamName: true, botToken: true, userToken: true }
+    })
+    const credentialHealth = await prisma.credentialHealth.findMany()
+    
+    // Get recent presence data (intervals confirmed in the last hour)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
-    const recentPresenceCount = await prisma.presenceLog.count({
+    const recentPresenceCount = await prisma.presenceInterval.count({
       where: {
-        timestamp: { gte: oneHourAgo }
+        endedAt: { gte: oneHourAgo }
       }
     })
     
     // Get recent presence data (last 3 hours)
     const threeHoursAgo = new Date(Date.now() - 3 * 60 * 60 * 1000)
-    const last3HoursPresenceCount = await prisma.presenceLog.count({
+    const last3HoursPresenceCount = await prisma.presenceInterval.count({
       where: {
-        timestamp: { gte: threeHoursAgo }
+        endedAt: { gte: threeHoursAgo }
       }
     })
     
-    // Get most recent presence entry
-    const mostRecentPresence = await prisma.presenceLog.findFirst({
-      orderBy: { timestamp: 'desc' },
+    // Get most recently confirmed presence interval
+    const mostRecentPresence = await prisma.presenceInterval.findFirst({
+      orderBy: { endedAt: 'desc' },
       include: {
         user: {
           select: { name: true, slackUserId: true }
@@ -44,9 +50,9 @@ export async function GET() {
     // Get users with no recent presence data
     const usersWithNoRecentData = await prisma.user.findMany({
       where: {
-        presenceLogs: {
+        presenceIntervals: {
           none: {
-            timestamp: { gte: oneHourAgo }
+            endedAt: { gte: oneHourAgo }
           }
         }
       },
@@ -54,16 +60,16 @@ export async function GET() {
         id: true,
         name: true,
         slackUserId: true,
-        slackAccessToken: true
+        hasSlackToken: true
       },
       take: 10
     })
     
     // Check presence data by user for debugging
-    const presenceByUser = await prisma.presenceLog.groupBy({
+    const presenceByUser = await prisma.presenceInterval.groupBy({
       by: ['userId'],
       where: {
-        timestamp: { gte: threeHoursAgo }
+        endedAt: { gte: threeHoursAgo }
       },
       _count: {
         id: true
@@ -93,6 +99,18 @@ export async function GET() {
       status: 'ok',
       timestamp: new Date().toISOString(),
       data: {
+        installations: installations.map(installation => ({
+          slackTeamId: installation.slackTeamId,
+          teamName: installation.teamName,
+          tokenType: installation.botToken ? 'bot' : installation.userToken ? 'user' : null
+        })),
+        credentialHealth: credentialHealth.map(health => ({
+          slackTeamId: health.slackTeamId,
+          status: health.status,
+          tokenType: health.tokenType,
+          message: health.message,
+          checkedAt: health.checkedAt
+        })),
         users: {
           total: totalUsers,
           withTokens: usersWithTokens,
@@ -102,7 +120,7 @@ export async function GET() {
           lastHour: recentPresenceCount,
           last3Hours: last3HoursPresenceCount,
           mostRecent: mostRecentPresence ? {
-            timestamp: mostRecentPresence.timestamp,
+            timestamp: mostRecentPresence.endedAt,
             user: mostRecentPresence.user.name,
             status: mostRecentPresence.status
           } : null
@@ -110,7 +128,7 @@ export async function GET() {
         issues: {
           usersWithNoRecentData: usersWithNoRecentData.map(u => ({
             name: u.name,
-            hasToken: !!u.slackAccessToken
+            hasToken: u.hasSlackToken
           }))
         },
         topActiveUsers: presenceWithNames
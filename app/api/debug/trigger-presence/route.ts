@@ -15,7 +15,8 @@ export async function GET() {
     // Get the base URL
     const baseUrl = process.env.NEXTAUTH_URL || 'https://slack-presence.vercel.app'
     
-    // Trigger the presence collection manually
+    // Trigger the presence collection manually. It records into the current collection
+    // slot, so a trigger right after (or during) a cron run adds nothing twice.
     const response = await fetch(`${baseUrl}/api/cron/collect-presence`, {
       method: 'GET',
       headers: {
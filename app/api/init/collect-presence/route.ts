@@ -1,115 +1,124 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { SlackApiError } from '@/lib/slack'
+import { classifyPresence, collectionSlot, recordPresenceObservations } from '@/lib/presence-intervals'
+import {
+  startCollectionRunsSafely,
+  finishCollectionRunSafely,
+  recordFailedCollectionRun,
+  noUsersCollectedError,
+  type CollectionUserResult
+} from '@/lib/collection-runs'
+import { isAuthError, replaceRevokedToken } from '@/lib/credential-health'
+import { getPresenceSource } from '@/lib/presence-sources'
 
 export async function POST() {
+  const requestId = Math.random().toString(36).substring(7)
+  // Ledger entries by workspace, once the workspaces are known. Each is removed as it's finished.
+  let runIds: Map<string, string> | null = null
+
   try {
     console.log('Starting initialization presence collection...')
-    
-    // Get one user with a valid bot token to check all users' presence
-    const adminUser = await prisma.user.findFirst({
+    // Slack unless PRESENCE_SOURCE says otherwise, each installed workspace with its own token
+    const source = getPresenceSource()
+    const workspaces = await source.listWorkspaces()
+
+    if (workspaces.length === 0) {
+      await recordFailedCollectionRun(requestId, 'init', 'No Slack installations found')
+      return NextResponse.json({ error: 'No Slack installations found' }, { status: 400 })
+    }
+
+    runIds = await startCollectionRunsSafely(requestId, 'init', workspaces.map(workspace => workspace.slackTeamId))
+
+    // Get all active users (not just those with tokens) in the installed workspaces
+    const users = await prisma.user.findMany({
       where: {
-        slackAccessToken: { not: null }
+        slackTeamId: { in: workspaces.map(workspace => workspace.slackTeamId) },
+        isActive: true
       }
     })
+    console.log(`Found ${users.length} users to monitor across ${workspaces.length} workspaces`)
 
-    if (!adminUser) {
-      return NextResponse.json({ error: 'No authenticated users found' }, { status: 400 })
-    }
+    const workspacesByTeam = new Map(workspaces.map(workspace => [workspace.slackTeamId, workspace]))
+    // Workspaces left without a working token during this run, with the reason
+    const revokedTeams = new Map<string, string>()
 
-    // Get bot token from user metadata
-    let botToken = null
-    if (adminUser.metadata) {
+    // Use the workspace's token, failing over to the next stored one when Slack has revoked it
+    const getPresence = async (slackUserId: string, slackTeamId: string) => {
+      const workspace = workspacesByTeam.get(slackTeamId)!
       try {
-        const metadata = JSON.parse(adminUser.metadata)
-        botToken = metadata.botToken
-      } catch {
-        console.warn('Could not parse user metadata for bot token')
+        return await source.getPresence(slackUserId, workspace)
+      } catch (error) {
+        if (!isAuthError(error)) throw error
+        const replacement = await replaceRevokedToken(workspace, error.code)
+        if (!replacement) {
+          revokedTeams.set(slackTeamId, error.code)
+          throw error
+        }
+        workspacesByTeam.set(slackTeamId, replacement)
+        return source.getPresence(slackUserId, replacement)
       }
     }
 
-    // Use bot token if available, otherwise use user token
-    const token = botToken || adminUser.slackAccessToken
-    console.log('Using token type for presence:', botToken ? 'bot' : 'user')
-
-    // Get all active users (not just those with tokens)
-    const users = await prisma.user.findMany({
-      where: {
-        // Exclude users marked as inactive
-        OR: [
-          { metadata: null },
-          { metadata: { not: { contains: '"inactive":true' } } }
-        ]
-      }
-    })
-    console.log(`Found ${users.length} users to monitor`)
+    // One slot for the whole run, so calling init again (or alongside the cron) records nothing twice
+    const observedAt = collectionSlot()
 
     const results = []
     for (const user of users) {
-      try {
-        // Get user's presence from Slack API using bot/admin token
-        // Note: This may return cached data - consider implementing RTM API for real-time updates
-        const presenceResponse = await fetch('https://slack.com/api/users.getPresence', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            user: user.slackUserId
-          })
+      // Nothing left to try in a workspace whose tokens have all been rejected
+      const revokedReason = revokedTeams.get(user.slackTeamId!)
+      if (revokedReason) {
+        results.push({
+          userId: user.id,
+          slackTeamId: user.slackTeamId,
+          error: `No working Slack token (${revokedReason})`,
+          success: false
         })
+        continue
+      }
 
-        const presenceData = await presenceResponse.json()
-
-        if (presenceData.ok) {
-          // Simple presence logic - just use the presence field directly
-          const actualStatus = presenceData.presence === 'active' ? 'active' : 'away'
-          
-          console.log(`🟢 Init presence check for ${user.name || user.slackUserId}: ${JSON.stringify({
-            presence: presenceData.presence,
-            online: presenceData.online,
-            auto_away: presenceData.auto_away,
-            manual_away: presenceData.manual_away,
-            connection_count: presenceData.connection_count,
-            last_activity: presenceData.last_activity,
-            actualStatus
-          })}`)
-          
-          // Store presence data
-          await prisma.presenceLog.create({
-            data: {
-              userId: user.id,
-              status: actualStatus,
-              timestamp: new Date(),
-              metadata: JSON.stringify({
-                online: presenceData.online,
-                auto_away: presenceData.auto_away,
-                manual_away: presenceData.manual_away,
-                connection_count: presenceData.connection_count,
-                last_activity: presenceData.last_activity,
-                raw_presence: presenceData.presence // Store original for reference
-              })
-            }
-          })
-
-          results.push({
-            userId: user.id,
-            status: presenceData.presence,
-            success: true
-          })
-        } else {
-          console.error(`Failed to get presence for user ${user.id} (${user.name || user.slackUserId}): Slack API error - ${presenceData.error}`)
-          results.push({
-            userId: user.id,
-            error: presenceData.error,
-            success: false
-          })
-        }
+      try {
+        // Get user's presence using their workspace's token
+        // Note: Slack may return cached data - the presence worker gets real-time updates
+        const presenceData = await getPresence(user.slackUserId, user.slackTeamId!)
+
+        // Tell idle, set-away and disconnected apart when Slack gives us the detail
+        const actualStatus = classifyPresence(presenceData)
+        
+        console.log(`🟢 Init presence check for ${user.name || user.slackUserId}: ${JSON.stringify({
+          presence: presenceData.presence,
+          online: presenceData.online,
+          auto_away: presenceData.auto_away,
+          manual_away: presenceData.manual_away,
+          connection_count: presenceData.connection_count,
+          last_activity: presenceData.last_activity,
+          actualStatus
+        })}`)
+        
+        // Store presence data
+        await recordPresenceObservations([{
+          userId: user.id,
+          status: actualStatus,
+          observedAt,
+          source: 'poll'
+        }])
+
+        results.push({
+          userId: user.id,
+          slackTeamId: user.slackTeamId,
+          status: actualStatus,
+          success: true
+        })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
-        console.error(`Error processing user ${user.id} (${user.name || user.slackUserId}): ${errorMessage}`)
+        if (error instanceof SlackApiError) {
+          console.error(`Failed to get presence for user ${user.id} (${user.name || user.slackUserId}): Slack API error - ${errorMessage}`)
+        } else {
+          console.error(`Error processing user ${user.id} (${user.name || user.slackUserId}): ${errorMessage}`)
+        }
         results.push({
           userId: user.id,
+          slackTeamId: user.slackTeamId,
           error: errorMessage,
           success: false
         })
@@ -121,6 +130,23 @@ export async function POST() {
 
     console.log(`Initialization presence collection completed: ${successCount} successful, ${errorCount} errors`)
 
+    // A workspace that lost its tokens, or where no user could be polled, wasn't
+    // really collected, so it gets a failed run
+    for (const { slackTeamId } of workspaces) {
+      const userResults: CollectionUserResult[] = results
+        .filter(r => r.slackTeamId === slackTeamId)
+        .map(r => ({ userId: r.userId, ok: r.success, ...(r.error ? { error: r.error } : {}) }))
+      const error = revokedTeams.get(slackTeamId) ?? noUsersCollectedError(userResults)
+      await finishCollectionRunSafely(runIds.get(slackTeamId) ?? null, {
+        status: error ? 'failed' : 'completed',
+        // The token the run ended up with, after any failover
+        tokenType: workspacesByTeam.get(slackTeamId)!.tokenType,
+        userResults,
+        error
+      })
+      runIds.delete(slackTeamId)
+    }
+
     return NextResponse.json({
       message: 'Initialization presence collection completed',
       results: {
@@ -134,6 +160,13 @@ export async function POST() {
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     console.error('Error in initialization presence collection:', error)
+    if (runIds) {
+      for (const runId of runIds.values()) {
+        await finishCollectionRunSafely(runId, { status: 'failed', error: errorMessage })
+      }
+    } else {
+      await recordFailedCollectionRun(requestId, 'init', errorMessage)
+    }
     return NextResponse.json({ 
       error: 'Initialization presence collection failed',
       details: errorMessage 
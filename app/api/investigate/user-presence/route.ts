@@ -24,6 +24,12 @@ export async function GET(request: Request) {
         slackUserId: true,
         email: true,
         timezone: true,
+        isActive: true,
+        inactiveSince: true,
+        isAdmin: true,
+        isOwner: true,
+        title: true,
+        displayName: true,
         metadata: true,
         createdAt: true,
         updatedAt: true
@@ -70,24 +76,7 @@ export async function GET(request: Request) {
       }
     })
 
-    // 4. Parse metadata to analyze raw_presence vs adjusted status
-    const logsWithParsedMetadata = recentLogs.map(log => {
-      let parsedMetadata = null
-      try {
-        if (log.metadata) {
-          parsedMetadata = JSON.parse(log.metadata)
-        }
-      } catch {
-        // Ignore parsing errors
-      }
-      
-      return {
-        ...log,
-        parsedMetadata
-      }
-    })
-
-    // 5. Check for data collection patterns
+    // 4. Check for data collection patterns
     const timestamps = recentLogs.map(log => log.timestamp.toISOString())
     const timeGaps = []
     
@@ -103,10 +92,7 @@ export async function GET(request: Request) {
     }
 
     const response = {
-      user: {
-        ...user,
-        parsedMetadata: user.metadata ? JSON.parse(user.metadata) : null
-      },
+      user,
       summary: {
         totalLogsAllTime: totalLogs,
         logsLast24Hours: recentLogs.length,
@@ -115,7 +101,7 @@ export async function GET(request: Request) {
           return acc
         }, {} as Record<string, number>)
       },
-      recentLogs: logsWithParsedMetadata.slice(0, 20), // Show latest 20 for readability
+      recentLogs: recentLogs.slice(0, 20), // Show latest 20 for readability
       dataQualityAnalysis: {
         averageGapMinutes: timeGaps.length > 0 
           ? Math.round((timeGaps.reduce((sum, gap) => sum + gap.gapMinutes, 0) / timeGaps.length) * 100) / 100
@@ -124,8 +110,8 @@ export async function GET(request: Request) {
           .filter(gap => gap.gapMinutes > 30) // Gaps longer than 30 minutes
           .slice(0, 10)
           .sort((a, b) => b.gapMinutes - a.gapMinutes),
-        collectionsWithMetadata: logsWithParsedMetadata.filter(log => log.parsedMetadata).length,
-        collectionsWithoutMetadata: logsWithParsedMetadata.filter(log => !log.parsedMetadata).length
+        collectionsWithMetadata: recentLogs.filter(log => log.metadata !== null).length,
+        collectionsWithoutMetadata: recentLogs.filter(log => log.metadata === null).length
       }
     }
 
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { syncMessages } from '@/lib/message-sync'
+
+export const maxDuration = 60
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  const requestId = Math.random().toString(36).substring(7)
+
+  console.log(`[${requestId}] 🚀 Starting message metadata sync at ${new Date().toISOString()}`)
+
+  try {
+    // Same shared secret the cron routes use - this endpoint is only called server-side
+    if (!process.env.CRON_SECRET) {
+      console.error(`[${requestId}] ❌ CRON_SECRET is not configured`)
+      return NextResponse.json({ error: 'Invalid sync configuration' }, { status: 500 })
+    }
+
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      console.warn(`[${requestId}] ⚠️ Unauthorized message sync attempt from:`, request.headers.get('x-forwarded-for') || 'unknown')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: { userId?: string; teamId?: string } = {}
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    if (!body.userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    // Always use the token we have on file rather than one passed in the request
+    const user = await prisma.user.findUnique({
+      where: { slackUserId: body.userId },
+      select: { id: true, name: true, slackUserId: true, slackTeamId: true, slackAccessToken: true }
+    })
+
+    if (!user || !user.slackAccessToken) {
+      return NextResponse.json({ error: 'No Slack token on file for this user' }, { status: 404 })
+    }
+
+    const slackTeamId = user.slackTeamId || body.teamId
+    if (!slackTeamId) {
+      return NextResponse.json({ error: 'Unknown Slack team for this user' }, { status: 400 })
+    }
+
+    console.log(`[${requestId}] 👤 Syncing conversations visible to ${user.name || user.slackUserId}`)
+    const result = await syncMessages(user.slackAccessToken, slackTeamId)
+    const duration = Date.now() - startTime
+
+    console.log(`[${requestId}] 🎉 Message sync ${result.timedOut ? 'paused' : 'completed'} in ${duration}ms: ${result.completed}/${result.channels} channels complete, ${result.recorded} messages recorded, ${result.errors} errors, ${result.notVisited} not reached`)
+
+    return NextResponse.json({
+      message: result.timedOut
+        ? 'Message sync paused - run again to resume from the saved checkpoints'
+        : 'Message sync completed',
+      requestId,
+      results: {
+        channels: result.channels,
+        completed: result.completed,
+        inProgress: result.inProgress,
+        notVisited: result.notVisited,
+        errors: result.errors,
+        recorded: result.recorded,
+        timedOut: result.timedOut,
+        duration: `${duration}ms`
+      },
+      channels: result.results,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`[${requestId}] ❌ Message sync failed after ${duration}ms:`, error)
+    return NextResponse.json({
+      error: 'Message sync failed',
+      requestId,
+      details: errorMessage,
+      duration: `${duration}ms`
+    }, { status: 500 })
+  }
+}
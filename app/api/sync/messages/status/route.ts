@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessageSyncStatus } from '@/lib/message-sync'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Channel names include private channels, so keep this behind the admin secret
+    const isDev = process.env.NODE_ENV === 'development'
+    const adminSecret = request.headers.get('x-admin-secret')
+    const validSecret = process.env.ADMIN_SECRET || process.env.CRON_SECRET
+
+    if (!isDev && (!adminSecret || !validSecret || adminSecret !== validSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const teamId = searchParams.get('teamId') || undefined
+
+    const channels = await getMessageSyncStatus(teamId)
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      summary: {
+        channels: channels.length,
+        complete: channels.filter(c => c.backfillComplete).length,
+        inProgress: channels.filter(c => c.syncStatus === 'in_progress').length,
+        pending: channels.filter(c => c.syncStatus === 'pending').length,
+        errors: channels.filter(c => c.syncStatus === 'error').length,
+        messagesSynced: channels.reduce((sum, c) => sum + c.messagesSynced, 0)
+      },
+      channels
+    })
+  } catch (error) {
+    console.error('❌ Error fetching message sync status:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch message sync status',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 })
+  }
+}
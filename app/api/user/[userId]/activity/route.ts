@@ -1,23 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
 import { prisma } from '@/lib/db'
-
-interface PresenceBlock {
-  hour: number
-  quarter: number
-  blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
-  onlinePercentage: number
-  activeMinutes: number
-  totalMinutes: number
-  blockStart: string
-  blockEnd: string
-}
+import { getWorkspacesForSlackUser } from '@/lib/installations'
+import type { PresenceState } from '@/lib/presence-intervals'
+import type { PresenceBlock } from '@/lib/presence-timeline'
+import { buildDaySnapshot, getDailySummaries, loadDayInputs, sliceDayInputs } from '@/lib/daily-summaries'
+import type { StatusLaneSpan } from '@/lib/status-history'
+import type { StatusCategory } from '@/lib/status-classifier'
+import { dateKeysBetween, localDateKey, zonedDayBounds } from '@/lib/timezone'
 
 interface DayData {
   date: string
   dayName: string
   dayShort: string
   totalActiveMinutes: number
+  trackedMinutes: number
+  stateMinutes: Partial<Record<PresenceState, number>>
+  // Active minutes with Do Not Disturb on
+  focusMinutes: number
+  messageCount: number
+  // True when the totals come from the day's finalized DailySummary
+  finalized: boolean
+  firstActiveTime: string | null
+  lastActiveTime: string | null
+  peakActivityHour: number | null
+  // Custom statuses set during the day, drawn as a lane above the presence blocks
+  statusSpans: StatusLaneSpan[]
+  // Minutes under a meeting/lunch/PTO/sick/commuting status
+  categoryMinutes: Partial<Record<StatusCategory, number>>
+  // PTO or sick for most of the day - left out of averages
+  timeOff: boolean
   timeline: PresenceBlock[]
 }
 
@@ -34,6 +46,8 @@ interface UserActivityData {
   days: DayData[]
   totalWeeks: number
   totalActiveMinutes: number
+  totalTrackedMinutes: number
+  totalMessages: number
 }
 
 export async function GET(
@@ -43,7 +57,6 @@ export async function GET(
   const { searchParams } = new URL(request.url)
   const startParam = searchParams.get('start')
   const endParam = searchParams.get('end')
-  const timezoneOffsetParam = searchParams.get('tz')
   const { userId } = await params
 
   if (!userId) {
@@ -56,6 +69,11 @@ export async function GET(
   try {
     const startTime = Date.now()
 
+    const session = await getToken({ req: request })
+    if (!session?.slackUserId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     // Get user information
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -65,6 +83,8 @@ export async function GET(
         avatarUrl: true,
         timezone: true,
         slackUserId: true,
+        slackTeamId: true,
+        createdAt: true,
       },
     })
 
@@ -75,6 +95,12 @@ export async function GET(
       )
     }
 
+    // Only people in the same workspace can see someone's activity
+    const workspaces = await getWorkspacesForSlackUser(session.slackUserId)
+    if (!user.slackTeamId || !workspaces.some(workspace => workspace.slackTeamId === user.slackTeamId)) {
+      return NextResponse.json({ error: 'Not a member of that workspace' }, { status: 403 })
+    }
+
     // Calculate date boundaries
     let startDate: Date
     let endDate: Date
@@ -89,142 +115,60 @@ export async function GET(
       startDate.setDate(endDate.getDate() - 14)
     }
 
-    // Use the start and end dates as provided by the client
-    // The client already calculated the correct boundaries in their local timezone
-    const adjustedStartDate = startDate
-    const adjustedEndDate = endDate
-
-    console.log(`📊 Fetching user activity for ${userId} from ${adjustedStartDate.toISOString()} to ${adjustedEndDate.toISOString()}`)
+    // Days are the user's own local calendar days, matching their DailySummary rows
+    const startDateKey = localDateKey(startDate, user.timezone)
+    const endDateKey = localDateKey(endDate, user.timezone)
+    const todayKey = localDateKey(new Date(), user.timezone)
 
-    // Get all presence logs for the user within the date range
-    const presenceLogs = await prisma.presenceLog.findMany({
-      where: {
-        userId: userId,
-        timestamp: {
-          gte: adjustedStartDate,
-          lte: adjustedEndDate,
-        },
-      },
-      select: {
-        status: true,
-        timestamp: true,
-      },
-      orderBy: {
-        timestamp: 'asc',
-      },
-    })
+    console.log(`📊 Fetching user activity for ${userId} from ${startDateKey} to ${endDateKey} (${user.timezone || 'UTC'})`)
 
-    console.log(`📊 Found ${presenceLogs.length} presence logs for user ${userId}`)
+    // Finished days are read from their finalized summary alone; today (and any
+    // day the job hasn't reached yet) is built from the raw data
+    const summaries = await getDailySummaries(userId, startDateKey, endDateKey)
+    const dateKeys = dateKeysBetween(startDateKey, endDateKey)
+    const liveKeys = dateKeys.filter(dateKey => dateKey >= todayKey || !summaries.has(dateKey))
+    console.log(`📊 Found ${summaries.size} finalized daily summaries for user ${userId}, building ${liveKeys.length} days live`)
 
-    // Group presence logs by date
-    const logsByDate = new Map<string, Array<{ timestamp: Date, status: string }>>()
-    
-    presenceLogs.forEach(log => {
-      const dateKey = log.timestamp.toISOString().split('T')[0]
-      if (!logsByDate.has(dateKey)) {
-        logsByDate.set(dateKey, [])
-      }
-      logsByDate.get(dateKey)!.push({
-        timestamp: log.timestamp,
-        status: log.status
-      })
-    })
+    // Fetched once over just the live days, then sliced per day
+    const liveInputs = liveKeys.length > 0
+      ? await loadDayInputs(user, zonedDayBounds(liveKeys[0], user.timezone).start, zonedDayBounds(liveKeys[liveKeys.length - 1], user.timezone).end)
+      : null
 
-    // Generate daily data for each day in the range
     const days: DayData[] = []
     let totalActiveMinutes = 0
-    
-    // Use date-only iteration to avoid timezone edge cases
-    const startDateKey = adjustedStartDate.toISOString().split('T')[0]
-    const endDateKey = adjustedEndDate.toISOString().split('T')[0]
-    
-    const currentDate = new Date(startDateKey + 'T00:00:00.000Z')
-    const iterationEndDate = new Date(endDateKey + 'T23:59:59.999Z')
-    
-    while (currentDate <= iterationEndDate) {
-      const dateKey = currentDate.toISOString().split('T')[0]
-      const dayLogs = logsByDate.get(dateKey) || []
-      
-      // Create 24-hour timeline (96 15-minute blocks)
-      const timeline: PresenceBlock[] = []
-      let dayActiveMinutes = 0
-      
-      // Use the client's timezone boundaries by creating a day start from the dateKey
-      // This preserves the client's timezone intent like the dashboard API does
-      const dayStartForClient = new Date(dateKey + 'T00:00:00.000Z')
-      
-      for (let hour = 0; hour < 24; hour++) {
-        for (let quarter = 0; quarter < 4; quarter++) {
-          // Calculate block boundaries directly from dayStartForClient which preserves the client's timezone intent
-          const blockStart = new Date(dayStartForClient.getTime() + (hour * 60 + quarter * 15) * 60 * 1000)
-          const blockEnd = new Date(blockStart.getTime() + 15 * 60 * 1000)
-          
-          // Find logs within this 15-minute block
-          const blockLogs = dayLogs.filter(log => 
-            log.timestamp >= blockStart && log.timestamp < blockEnd
-          )
-          
-          const activeMinutes = blockLogs.filter(log => log.status === 'active').length
-          const onlinePercentage = blockLogs.length > 0 ? Math.round((activeMinutes / blockLogs.length) * 100) : 0
-          
-          let status: 'online' | 'offline' | 'no-data'
-          if (blockLogs.length === 0) {
-            status = 'no-data'
-          } else if (activeMinutes >= 6) { // Require 6+ active minutes in 15-minute block
-            status = 'online'
-          } else {
-            status = 'offline'
-          }
-          
-          timeline.push({
-            hour,
-            quarter,
-            blockIndex: hour * 4 + quarter,
-            status,
-            onlinePercentage,
-            activeMinutes,
-            totalMinutes: 15,
-            blockStart: blockStart.toISOString(),
-            blockEnd: blockEnd.toISOString(),
-          })
-          
-          dayActiveMinutes += activeMinutes
-        }
-      }
-      
-      // Get day name from the dateKey, accounting for client timezone
-      const [year, month, day] = dateKey.split('-').map(Number)
-      const dateForDayName = new Date(year, month - 1, day)
-      
-      // If client provided timezone offset, use it to ensure day names match client's perspective
-      let dayName: string
-      let dayShort: string
-      
-      if (timezoneOffsetParam) {
-        // Use client's timezone offset to get the correct day name
-        const clientTimezoneOffset = parseInt(timezoneOffsetParam)
-        const utcTime = dateForDayName.getTime() + (dateForDayName.getTimezoneOffset() * 60000)
-        const clientTime = new Date(utcTime - (clientTimezoneOffset * 60000))
-        dayName = clientTime.toLocaleDateString('en-US', { weekday: 'long' })
-        dayShort = clientTime.toLocaleDateString('en-US', { weekday: 'short' })
-      } else {
-        // Fallback to server timezone
-        dayName = dateForDayName.toLocaleDateString('en-US', { weekday: 'long' })
-        dayShort = dateForDayName.toLocaleDateString('en-US', { weekday: 'short' })
-      }
-      
+    let totalTrackedMinutes = 0
+    let totalMessages = 0
+
+    for (const dateKey of dateKeys) {
+      const { start: dayStart, end: dayEnd } = zonedDayBounds(dateKey, user.timezone)
+      const summary = dateKey < todayKey ? summaries.get(dateKey) : undefined
+      const day = summary ?? buildDaySnapshot(dayStart, dayEnd, sliceDayInputs(liveInputs!, dayStart, dayEnd))
+
+      // The date key is a calendar date, so read its weekday in UTC
+      const dateForDayName = new Date(dateKey + 'T00:00:00.000Z')
+
       days.push({
         date: dateKey,
-        dayName,
-        dayShort,
-        totalActiveMinutes: dayActiveMinutes,
-        timeline,
+        dayName: dateForDayName.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+        dayShort: dateForDayName.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' }),
+        totalActiveMinutes: day.totalActiveMinutes,
+        trackedMinutes: day.trackedMinutes,
+        stateMinutes: day.stateMinutes,
+        focusMinutes: day.focusMinutes,
+        messageCount: day.messageCount,
+        finalized: !!summary,
+        firstActiveTime: day.firstActiveTime?.toISOString() ?? null,
+        lastActiveTime: day.lastActiveTime?.toISOString() ?? null,
+        peakActivityHour: day.peakActivityHour,
+        statusSpans: day.statusSpans,
+        categoryMinutes: day.categoryMinutes,
+        timeOff: day.timeOff,
+        timeline: day.timeline,
       })
-      
-      totalActiveMinutes += dayActiveMinutes
-      
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1)
+
+      totalActiveMinutes += day.totalActiveMinutes
+      totalTrackedMinutes += day.trackedMinutes
+      totalMessages += day.messageCount
     }
 
     // Calculate total weeks
@@ -242,6 +186,8 @@ export async function GET(
       days: days.reverse(), // Most recent first
       totalWeeks,
       totalActiveMinutes,
+      totalTrackedMinutes,
+      totalMessages,
     }
 
     console.log(`📊 User activity processing completed in ${Date.now() - startTime}ms`)
@@ -251,8 +197,8 @@ export async function GET(
       data: responseData,
     })
 
-    // Cache for 5 minutes
-    response.headers.set('Cache-Control', 'public, max-age=300, stale-while-revalidate=600')
+    // Cache for 5 minutes - privately, since it depends on who is asking
+    response.headers.set('Cache-Control', 'private, max-age=300, stale-while-revalidate=600')
 
     return response
 
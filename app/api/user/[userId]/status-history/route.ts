@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { prisma } from '@/lib/db'
+import { getWorkspacesForSlackUser } from '@/lib/installations'
+import { getStatusHistory } from '@/lib/status-history'
+
+// A user's custom status history between start and end (default: the last 2 weeks)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { searchParams } = new URL(request.url)
+  const startParam = searchParams.get('start')
+  const endParam = searchParams.get('end')
+  const { userId } = await params
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'User ID is required' },
+      { status: 400 }
+    )
+  }
+
+  const end = endParam ? new Date(endParam) : new Date()
+  const start = startParam ? new Date(startParam) : new Date(end.getTime() - 14 * 24 * 60 * 60 * 1000)
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    return NextResponse.json(
+      { error: 'start and end must be valid dates with start before end' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const session = await getToken({ req: request })
+    if (!session?.slackUserId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, slackTeamId: true }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only people in the same workspace can see someone's statuses
+    const workspaces = await getWorkspacesForSlackUser(session.slackUserId)
+    if (!user.slackTeamId || !workspaces.some(workspace => workspace.slackTeamId === user.slackTeamId)) {
+      return NextResponse.json({ error: 'Not a member of that workspace' }, { status: 403 })
+    }
+
+    const history = await getStatusHistory(userId, start, end)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        userId,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        statuses: history.map(span => ({
+          statusText: span.statusText,
+          statusEmoji: span.statusEmoji,
+          expiresAt: span.expiresAt?.toISOString() ?? null,
+          startedAt: span.startedAt.toISOString(),
+          endedAt: span.endedAt?.toISOString() ?? null
+        }))
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching status history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch status history' },
+      { status: 500 }
+    )
+  }
+}
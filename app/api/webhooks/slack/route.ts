@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  verifySlackSignature,
+  recordSlackEvent,
+  releaseSlackEvent,
+  dispatchSlackEvent,
+  type SlackEventPayload
+} from '@/lib/slack-events'
+import { reportRateLimit } from '@/lib/slack'
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  const rawBody = await request.text()
+
+  // Verify the request actually came from Slack before looking at the payload
+  const signatureCheck = verifySlackSignature(
+    rawBody,
+    request.headers.get('x-slack-request-timestamp'),
+    request.headers.get('x-slack-signature')
+  )
+
+  if (!signatureCheck.valid) {
+    console.warn('⚠️ Rejected Slack event request:', signatureCheck.reason)
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  let payload: SlackEventPayload
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  // Answer the one-time challenge Slack sends when the request URL is configured
+  if (payload.type === 'url_verification') {
+    return NextResponse.json({ challenge: payload.challenge })
+  }
+
+  if (payload.type === 'app_rate_limited') {
+    console.warn(`⚠️ Slack is rate limiting event delivery for team ${payload.team_id} (minute ${payload.minute_rate_limited})`)
+    await reportRateLimit('events', 60, payload.team_id)
+    return NextResponse.json({ ok: true })
+  }
+
+  if (payload.type !== 'event_callback' || !payload.event) {
+    return NextResponse.json({ error: 'Unsupported payload type' }, { status: 400 })
+  }
+
+  const retryNum = parseInt(request.headers.get('x-slack-retry-num') || '0', 10) || 0
+  const retryReason = request.headers.get('x-slack-retry-reason')
+
+  try {
+    const isNew = await recordSlackEvent(payload, retryNum)
+    if (!isNew) {
+      console.log(`🔁 Skipping duplicate Slack event ${payload.event_id} (retry ${retryNum}${retryReason ? `, ${retryReason}` : ''})`)
+      return NextResponse.json({ ok: true, duplicate: true })
+    }
+  } catch (error) {
+    console.error('❌ Failed to record Slack event receipt:', error)
+    return NextResponse.json({ error: 'Failed to record event' }, { status: 500 })
+  }
+
+  try {
+    const handled = await dispatchSlackEvent(payload)
+    console.log(`✅ Slack event ${payload.event.type} (${payload.event_id}) ${handled ? 'handled' : 'ignored'} in ${Date.now() - startTime}ms`)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error(`❌ Error handling Slack event ${payload.event.type} (${payload.event_id}):`, error)
+
+    // Drop the receipt so Slack's retry gets a second chance
+    await releaseSlackEvent(payload.event_id).catch(releaseError => {
+      console.error('❌ Failed to release Slack event receipt:', releaseError)
+    })
+
+    return NextResponse.json({ error: 'Event handling failed' }, { status: 500 })
+  }
+}
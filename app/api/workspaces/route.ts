@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getWorkspacesForSlackUser } from '@/lib/installations'
+
+// Workspaces the signed-in user can switch between on the dashboard
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request })
+    if (!token?.slackUserId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workspaces = await getWorkspacesForSlackUser(token.slackUserId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        current: token.slackTeamId || null,
+        workspaces
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching workspaces:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    )
+  }
+}
@@ -16,11 +16,28 @@ interface UserData {
   slackUserId: string
 }
 
+interface StatusSpan {
+  statusText: string
+  statusEmoji: string
+  start: string
+  end: string
+}
+
 interface DayData {
   date: string
   dayName: string
   dayShort: string
   totalActiveMinutes: number
+  trackedMinutes: number
+  messageCount: number
+  focusMinutes: number
+  finalized: boolean
+  firstActiveTime: string | null
+  lastActiveTime: string | null
+  peakActivityHour: number | null
+  statusSpans: StatusSpan[]
+  categoryMinutes: Partial<Record<'meeting' | 'lunch' | 'pto' | 'sick' | 'commuting', number>>
+  timeOff: boolean
   timeline: TimelineBlock[]
 }
 
@@ -28,10 +45,14 @@ interface TimelineBlock {
   hour: number
   quarter: number
   blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
+  status: 'online' | 'idle' | 'manual-away' | 'disconnected' | 'offline' | 'no-data' | 'collector-gap' | 'not-tracked'
   onlinePercentage: number
   activeMinutes: number
+  stateMinutes: Partial<Record<'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline', number>>
+  dndMinutes: number
   totalMinutes: number
+  messageCount: number
+  hasMessages: boolean
   blockStart: string
   blockEnd: string
 }
@@ -41,6 +62,8 @@ interface UserActivityData {
   days: DayData[]
   totalWeeks: number
   totalActiveMinutes: number
+  totalTrackedMinutes: number
+  totalMessages: number
 }
 
 export default function UserDetailPage() {
@@ -65,9 +88,8 @@ export default function UserDetailPage() {
       startDate.setDate(endDate.getDate() - (weeks * 7))
       startDate.setHours(0, 0, 0, 0)
       
-      const timezoneOffset = startDate.getTimezoneOffset()
       const response = await fetch(
-        `/api/user/${userId}/activity?start=${startDate.toISOString()}&end=${endDate.toISOString()}&tz=${timezoneOffset}`
+        `/api/user/${userId}/activity?start=${startDate.toISOString()}&end=${endDate.toISOString()}`
       )
       const result = await response.json()
       
@@ -214,10 +236,10 @@ export default function UserDetailPage() {
               </div>
               <div className="space-y-1">
                 <div className="text-3xl font-semibold text-foreground">
-                  {formatMinutes(Math.round(data.totalActiveMinutes / (dateRange.weeks * 7)))}
+                  {formatMinutes(Math.round(data.totalActiveMinutes / Math.max(1, data.days.filter(day => day.trackedMinutes > 0).length)))}
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Per day
+                  Per tracked day
                 </p>
               </div>
             </CardHeader>
@@ -234,7 +256,7 @@ export default function UserDetailPage() {
                   {data.days.filter(day => day.totalActiveMinutes > 0).length}
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Out of {data.days.length} days
+                  Out of {data.days.filter(day => day.trackedMinutes > 0).length} tracked days
                 </p>
               </div>
             </CardHeader>
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts. Self-hosted deployments (e.g. `next start`
+// in Docker) set SCHEDULER_ENABLED=true to run the cron jobs in-process; on Vercel
+// the platform's crons call the routes instead.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SCHEDULER_ENABLED === 'true') {
+    const { startScheduler } = await import('./src/lib/scheduler')
+    startScheduler()
+  }
+}
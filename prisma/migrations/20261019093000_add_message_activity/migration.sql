@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "message_activity" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "slack_team_id" TEXT,
+    "message_ts" TEXT NOT NULL,
+    "posted_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'event',
+
+    CONSTRAINT "message_activity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_activity_channel_id_message_ts_key" ON "message_activity"("channel_id", "message_ts");
+
+-- CreateIndex
+CREATE INDEX "message_activity_user_id_posted_at_idx" ON "message_activity"("user_id", "posted_at");
+
+-- CreateIndex
+CREATE INDEX "message_activity_posted_at_idx" ON "message_activity"("posted_at");
+
+-- AddForeignKey
+ALTER TABLE "message_activity" ADD CONSTRAINT "message_activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- The channels table already exists (20250718212859_add_channel_persistence), so
+-- bring it in line with the checkpointed sync rather than creating it again
+
+-- AlterTable
+ALTER TABLE "channels" RENAME COLUMN "isPrivate" TO "is_private";
+ALTER TABLE "channels" RENAME COLUMN "isArchived" TO "is_archived";
+ALTER TABLE "channels" RENAME COLUMN "syncStatus" TO "sync_status";
+ALTER TABLE "channels" ALTER COLUMN "name" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "channels" ADD COLUMN "backfill_complete" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "sync_cursor" TEXT,
+ADD COLUMN "backfill_from_ts" TEXT,
+ADD COLUMN "oldest_synced_ts" TEXT,
+ADD COLUMN "newest_synced_ts" TEXT,
+ADD COLUMN "messages_synced" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "slack_rate_limit_events" (
+    "id" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "retry_after_seconds" INTEGER NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slack_rate_limit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "slack_rate_limit_events_occurred_at_idx" ON "slack_rate_limit_events"("occurred_at");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "worker_heartbeats" (
+    "name" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "last_seen_at" TIMESTAMP(3) NOT NULL,
+    "metadata" TEXT,
+
+    CONSTRAINT "worker_heartbeats_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "presence_intervals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "presence_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "presence_intervals_user_id_started_at_idx" ON "presence_intervals"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "presence_intervals_user_id_ended_at_idx" ON "presence_intervals"("user_id", "ended_at");
+
+-- CreateIndex
+CREATE INDEX "presence_intervals_ended_at_idx" ON "presence_intervals"("ended_at");
+
+-- AddForeignKey
+ALTER TABLE "presence_intervals" ADD CONSTRAINT "presence_intervals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "collection_runs" (
+    "id" TEXT NOT NULL,
+    "request_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "token_type" TEXT,
+    "users_total" INTEGER NOT NULL DEFAULT 0,
+    "success_count" INTEGER NOT NULL DEFAULT 0,
+    "error_count" INTEGER NOT NULL DEFAULT 0,
+    "user_results" TEXT,
+    "error" TEXT,
+
+    CONSTRAINT "collection_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "collection_runs_started_at_idx" ON "collection_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "collection_runs_status_started_at_idx" ON "collection_runs"("status", "started_at");
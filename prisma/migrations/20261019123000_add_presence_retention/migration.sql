@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "presence_buckets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "bucket_start" TIMESTAMP(3) NOT NULL,
+    "sample_count" INTEGER NOT NULL DEFAULT 0,
+    "active_count" INTEGER NOT NULL DEFAULT 0,
+    "first_active_at" TIMESTAMP(3),
+    "last_active_at" TIMESTAMP(3),
+
+    CONSTRAINT "presence_buckets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "retention_policies" (
+    "slack_team_id" TEXT NOT NULL,
+    "raw_retention_days" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retention_policies_pkey" PRIMARY KEY ("slack_team_id")
+);
+
+-- CreateIndex
+CREATE INDEX "presence_buckets_bucket_start_idx" ON "presence_buckets"("bucket_start");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presence_buckets_user_id_bucket_start_key" ON "presence_buckets"("user_id", "bucket_start");
+
+-- AddForeignKey
+ALTER TABLE "presence_buckets" ADD CONSTRAINT "presence_buckets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "daily_summaries" ADD COLUMN     "focus_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "dnd_intervals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "dnd_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dnd_intervals_user_id_started_at_idx" ON "dnd_intervals"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "dnd_intervals_user_id_ended_at_idx" ON "dnd_intervals"("user_id", "ended_at");
+
+-- AddForeignKey
+ALTER TABLE "dnd_intervals" ADD CONSTRAINT "dnd_intervals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
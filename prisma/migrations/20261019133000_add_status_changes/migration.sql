@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "status_changes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status_text" TEXT NOT NULL,
+    "status_emoji" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3),
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "status_changes_user_id_started_at_idx" ON "status_changes"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "status_changes_user_id_ended_at_idx" ON "status_changes"("user_id", "ended_at");
+
+-- AddForeignKey
+ALTER TABLE "status_changes" ADD CONSTRAINT "status_changes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "status_rules" (
+    "id" TEXT NOT NULL,
+    "slack_team_id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "match_type" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "status_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "status_rules_slack_team_id_match_type_pattern_key" ON "status_rules"("slack_team_id", "match_type", "pattern");
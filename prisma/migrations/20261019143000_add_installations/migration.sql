@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "installations" (
+    "id" TEXT NOT NULL,
+    "slack_team_id" TEXT NOT NULL,
+    "team_name" TEXT,
+    "bot_token" TEXT,
+    "bot_user_id" TEXT,
+    "user_token" TEXT,
+    "installer_slack_user_id" TEXT,
+    "scopes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "installations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installations_slack_team_id_key" ON "installations"("slack_team_id");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "installations" ADD COLUMN     "app_id" TEXT,
+ADD COLUMN     "bot_id" TEXT,
+ADD COLUMN     "enterprise_id" TEXT,
+ADD COLUMN     "enterprise_name" TEXT,
+ADD COLUMN     "is_enterprise_install" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "user_scopes" TEXT,
+ADD COLUMN     "workspace_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ALTER COLUMN "slack_team_id" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "installations_enterprise_id_idx" ON "installations"("enterprise_id");
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "users_slack_access_token_idx";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "has_slack_token" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill the flag for users who already signed in
+UPDATE "users" SET "has_slack_token" = true WHERE "slack_access_token" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "users_has_slack_token_idx" ON "users"("has_slack_token");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "credential_health" (
+    "slack_team_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "token_type" TEXT,
+    "message" TEXT,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credential_health_pkey" PRIMARY KEY ("slack_team_id")
+);
@@ -0,0 +1,42 @@
+-- Parses a stringified JSON column, turning anything unparseable into NULL
+CREATE FUNCTION pg_temp.try_jsonb(value TEXT) RETURNS JSONB AS $$
+BEGIN
+    RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- DropIndex
+DROP INDEX "users_metadata_idx";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "display_name" TEXT,
+ADD COLUMN     "inactive_since" TIMESTAMP(3),
+ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "is_admin" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_owner" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "title" TEXT,
+ALTER COLUMN "metadata" SET DATA TYPE JSONB USING pg_temp.try_jsonb("metadata");
+
+-- AlterTable
+ALTER TABLE "presence_logs" ALTER COLUMN "metadata" SET DATA TYPE JSONB USING pg_temp.try_jsonb("metadata");
+
+-- Move the fields user sync stored in metadata into their columns
+UPDATE "users" SET
+    "is_active" = NOT COALESCE("metadata"->'inactive' = 'true'::jsonb, false),
+    "inactive_since" = CASE
+        WHEN "metadata"->'inactive' = 'true'::jsonb AND jsonb_typeof("metadata"->'inactiveSince') = 'string'
+        THEN ("metadata"->>'inactiveSince')::timestamptz AT TIME ZONE 'UTC'
+    END,
+    "is_admin" = COALESCE("metadata"->'is_admin' = 'true'::jsonb, false),
+    "is_owner" = COALESCE("metadata"->'is_owner' = 'true'::jsonb, false),
+    "title" = NULLIF("metadata"->'profile'->>'title', ''),
+    "display_name" = NULLIF("metadata"->'profile'->>'display_name', '')
+WHERE jsonb_typeof("metadata") = 'object';
+
+UPDATE "users" SET "metadata" = "metadata" - 'inactive' - 'inactiveSince' - 'is_admin' - 'is_owner' - 'profile'
+WHERE jsonb_typeof("metadata") = 'object';
+
+-- CreateIndex
+CREATE INDEX "users_slack_team_id_is_active_idx" ON "users"("slack_team_id", "is_active");
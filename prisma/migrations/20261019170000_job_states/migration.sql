@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "job_states" (
+    "name" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "last_status" TEXT,
+    "last_started_at" TIMESTAMP(3),
+    "last_finished_at" TIMESTAMP(3),
+    "last_succeeded_at" TIMESTAMP(3),
+    "last_failed_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "last_duration_ms" INTEGER,
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "job_states_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "collection_runs" ADD COLUMN "slack_team_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "collection_runs_slack_team_id_status_started_at_idx" ON "collection_runs"("slack_team_id", "status", "started_at");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "daily_summaries" ADD COLUMN     "category_minutes" JSONB,
+ADD COLUMN     "message_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "state_minutes" JSONB,
+ADD COLUMN     "status_spans" JSONB,
+ADD COLUMN     "time_off" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "timeline" JSONB,
+ADD COLUMN     "tracked_minutes" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "presence_buckets" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'retention';
@@ -0,0 +1,13 @@
+-- Retried or overlapping collector runs could open two DND intervals for the same
+-- user at the same instant. Keep the longest of each set before adding the unique key.
+DELETE FROM "dnd_intervals" AS duplicate
+USING "dnd_intervals" AS kept
+WHERE duplicate."user_id" = kept."user_id"
+  AND duplicate."started_at" = kept."started_at"
+  AND (duplicate."ended_at", duplicate."id") < (kept."ended_at", kept."id");
+
+-- DropIndex
+DROP INDEX "dnd_intervals_user_id_started_at_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dnd_intervals_user_id_started_at_key" ON "dnd_intervals"("user_id", "started_at");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "slack_rate_limit_events" ADD COLUMN "slack_team_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "slack_rate_limit_events_slack_team_id_occurred_at_idx" ON "slack_rate_limit_events"("slack_team_id", "occurred_at");
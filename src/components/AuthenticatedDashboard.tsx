@@ -19,6 +19,7 @@ interface UserStats {
   todayActiveMinutes: number
   lastSeen: string | null
   isOnline: boolean
+  timeOff: boolean
 }
 
 
@@ -26,9 +27,11 @@ interface PresenceBlock {
   hour: number
   quarter: number
   blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
+  status: 'online' | 'idle' | 'manual-away' | 'disconnected' | 'offline' | 'no-data' | 'collector-gap' | 'not-tracked'
   onlinePercentage: number
   activeMinutes: number
+  stateMinutes: Partial<Record<'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline', number>>
+  dndMinutes: number
   totalMinutes: number
   messageCount: number
   hasMessages: boolean
@@ -48,9 +51,23 @@ interface UserTodayData {
   totalActiveMinutes: number
   messageCount: number
   isCurrentlyOnline: boolean
+  currentState: 'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline' | null
+  currentStatusCategory: 'meeting' | 'lunch' | 'pto' | 'sick' | 'commuting' | null
+  timeOff: boolean
   lastActiveTime: string | null
 }
 
+interface Workspace {
+  slackTeamId: string
+  name: string | null
+}
+
+interface CredentialProblem {
+  slackTeamId: string
+  status: 'degraded' | 'failed'
+  message: string | null
+  since: string
+}
 
 export default function AuthenticatedDashboard() {
   const { status } = useSession()
@@ -60,6 +77,7 @@ export default function AuthenticatedDashboard() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [rateLimited, setRateLimited] = useState<boolean>(false)
+  const [credentialProblems, setCredentialProblems] = useState<CredentialProblem[]>([])
   const lastRefreshRef = useRef<number>(0)
   const isRefreshingRef = useRef<boolean>(false)
   const [hoveredUser, setHoveredUser] = useState<{
@@ -68,6 +86,9 @@ export default function AuthenticatedDashboard() {
     y: number
   } | null>(null)
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
+  // Only people who belong to more than one installed workspace get a switcher
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null)
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const activeRequestRef = useRef<Promise<void> | null>(null)
 
@@ -78,6 +99,21 @@ export default function AuthenticatedDashboard() {
     }
   }, [status, router])
 
+  useEffect(() => {
+    if (status !== 'authenticated') return
+
+    fetch('/api/workspaces')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        if (!result?.success) return
+        setWorkspaces(result.data.workspaces)
+        setSelectedTeamId(current => current ?? result.data.current)
+      })
+      .catch(() => {
+        // Without the list the dashboard just shows the user's own workspace
+      })
+  }, [status])
+
   // Unified fetch function using new API
   const fetchDataForDate = useCallback(async (targetDate: Date, force = false) => {
     if (status !== 'authenticated') return
@@ -127,7 +163,8 @@ export default function AuthenticatedDashboard() {
         }
         
         // Fetch all data from unified API
-        const response = await fetch(`/api/dashboard/presence-data?start=${userDateStart.toISOString()}&end=${userDateEnd.toISOString()}`)
+        const teamQuery = selectedTeamId ? `&teamId=${encodeURIComponent(selectedTeamId)}` : ''
+        const response = await fetch(`/api/dashboard/presence-data?start=${userDateStart.toISOString()}&end=${userDateEnd.toISOString()}${teamQuery}`)
         const result = await response.json()
         
         if (result.success) {
@@ -142,7 +179,8 @@ export default function AuthenticatedDashboard() {
             totalActiveMinutes: user.totalActiveMinutes,
             todayActiveMinutes: user.totalActiveMinutes,
             lastSeen: null,
-            isOnline: user.isCurrentlyOnline
+            isOnline: user.isCurrentlyOnline,
+            timeOff: user.timeOff
           }))
           
           // Transform to UserTodayData format for existing components
@@ -156,12 +194,19 @@ export default function AuthenticatedDashboard() {
             totalActiveMinutes: user.totalActiveMinutes,
             messageCount: user.messageCount,
             isCurrentlyOnline: user.isCurrentlyOnline,
+            currentState: user.currentState,
+            currentStatusCategory: user.currentStatusCategory,
+            timeOff: user.timeOff,
             lastActiveTime: user.lastActiveTime
           }))
           
           setData(transformedData)
           setTodayData(todayData)
           
+          // Reflects rate-limit events recorded by the Slack gateway
+          setRateLimited(!!result.rateLimited)
+          setCredentialProblems(result.credentialProblems || [])
+          
         } else {
           // Check if this is a rate limiting issue
           if (result.error === 'ratelimited' || result.error?.includes('rate limit')) {
@@ -188,7 +233,7 @@ export default function AuthenticatedDashboard() {
     // Store the active request and return it
     activeRequestRef.current = requestPromise
     return requestPromise
-  }, [status])
+  }, [status, selectedTeamId])
 
   useEffect(() => {
     if (status !== 'authenticated') return
@@ -272,14 +317,19 @@ export default function AuthenticatedDashboard() {
     
     const onlineUsers = data.filter(user => user.isOnline)
     const totalActiveMinutes = data.reduce((sum, user) => sum + user.totalActiveMinutes, 0)
-    const averageActiveMinutes = Math.round(totalActiveMinutes / data.length)
+    // People out on PTO or sick don't drag the average down
+    const workingUsers = data.filter(user => !user.timeOff)
+    const averageActiveMinutes = Math.round(
+      workingUsers.reduce((sum, user) => sum + user.totalActiveMinutes, 0) / Math.max(1, workingUsers.length)
+    )
     
     return {
       totalUsers: data.length,
       onlineCount: onlineUsers.length,
       onlinePercentage: Math.round((onlineUsers.length / data.length) * 100),
       totalActiveMinutes,
-      averageActiveMinutes
+      averageActiveMinutes,
+      timeOffCount: data.length - workingUsers.length
     }
   }, [data])
 
@@ -344,6 +394,37 @@ export default function AuthenticatedDashboard() {
   }
 
 
+  // "Set themselves away" and "closed their laptop" read differently, so say which
+  const describeCurrentState = (currentState: UserTodayData['currentState']) => {
+    switch (currentState) {
+      case 'idle':
+        return 'Idle'
+      case 'manual_away':
+        return 'Set away'
+      case 'disconnected':
+        return 'Disconnected'
+      default:
+        return null
+    }
+  }
+
+  const describeStatusCategory = (category: UserTodayData['currentStatusCategory']) => {
+    switch (category) {
+      case 'meeting':
+        return 'In a meeting'
+      case 'lunch':
+        return 'At lunch'
+      case 'pto':
+        return 'On PTO'
+      case 'sick':
+        return 'Out sick'
+      case 'commuting':
+        return 'Commuting'
+      default:
+        return null
+    }
+  }
+
   const formatLastSeen = (lastActiveTime: string | null, totalActiveMinutes: number) => {
     if (!lastActiveTime) {
       return totalActiveMinutes === 0 ? 'No activity data available' : 'Never seen active'
@@ -386,7 +467,7 @@ export default function AuthenticatedDashboard() {
             </div>
             <div className="flex-1">
               <p className="text-sm text-amber-800">
-                <strong>Slack API Rate Limited:</strong> Showing cached data. Live updates will resume when rate limits reset (typically within 1 hour).
+                <strong>Slack API Rate Limited:</strong> Showing the most recent data we have. Live updates will resume once the Slack rate limit resets.
               </p>
             </div>
             <button 
@@ -401,6 +482,32 @@ export default function AuthenticatedDashboard() {
         </div>
       )}
       
+      {/* Credential Health Banner */}
+      {credentialProblems.map((problem) => {
+        const failed = problem.status === 'failed'
+        const workspaceName = workspaces.find(workspace => workspace.slackTeamId === problem.slackTeamId)?.name || problem.slackTeamId
+        return (
+          <div
+            key={problem.slackTeamId}
+            className={`${failed ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'} border-b px-6 py-3`}
+          >
+            <div className="max-w-7xl mx-auto flex items-center gap-3">
+              <div className="flex-shrink-0">
+                <svg className={`w-5 h-5 ${failed ? 'text-red-600' : 'text-amber-600'}`} fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <p className={`text-sm ${failed ? 'text-red-800' : 'text-amber-800'}`}>
+                <strong>{failed ? 'Collection stopped' : 'Using a fallback Slack token'} for {workspaceName}</strong>
+                {' '}since {new Date(problem.since).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}.
+                {failed && ' Gaps after this point are missing data, not people being offline.'}
+                {problem.message && ` ${problem.message}`}
+              </p>
+            </div>
+          </div>
+        )
+      })}
+      
       <div className="max-w-7xl mx-auto px-6 py-12">
         {/* Header */}
         <div className="mb-12 flex items-start justify-between">
@@ -413,15 +520,31 @@ export default function AuthenticatedDashboard() {
             </p>
           </div>
           
-          <Button 
-            onClick={handleLogout}
-            variant="ghost"
-            size="sm"
-            className="text-muted-foreground hover:text-foreground transition-colors"
-          >
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign out
-          </Button>
+          <div className="flex items-center gap-3">
+            {workspaces.length > 1 && (
+              <select
+                value={selectedTeamId ?? ''}
+                onChange={(e) => setSelectedTeamId(e.target.value)}
+                className="bg-card border border-border rounded-lg px-3 py-1.5 text-sm text-foreground hover:bg-accent/50 transition-colors"
+                aria-label="Workspace"
+              >
+                {workspaces.map((workspace) => (
+                  <option key={workspace.slackTeamId} value={workspace.slackTeamId}>
+                    {workspace.name || workspace.slackTeamId}
+                  </option>
+                ))}
+              </select>
+            )}
+            <Button 
+              onClick={handleLogout}
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
         </div>
 
         {/* Dashboard Content */}
@@ -536,7 +659,7 @@ export default function AuthenticatedDashboard() {
                     {formatMinutes(memoizedStats?.averageActiveMinutes || 0)}
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Per person
+                    Per person{memoizedStats?.timeOffCount ? ` (${memoizedStats.timeOffCount} out on PTO/sick)` : ''}
                   </p>
                 </div>
               </div>
@@ -596,6 +719,12 @@ export default function AuthenticatedDashboard() {
             transform: 'translateX(-50%)'
           }}
         >
+          {describeCurrentState(hoveredUser.user.currentState) && (
+            <span className="font-medium">{describeCurrentState(hoveredUser.user.currentState)} · </span>
+          )}
+          {describeStatusCategory(hoveredUser.user.currentStatusCategory) && (
+            <span className="font-medium">{describeStatusCategory(hoveredUser.user.currentStatusCategory)} · </span>
+          )}
           {formatLastSeen(hoveredUser.user.lastActiveTime, hoveredUser.user.totalActiveMinutes)}
         </div>,
         document.body
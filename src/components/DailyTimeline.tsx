@@ -3,24 +3,46 @@
 import { useState, useCallback, useRef, memo } from 'react'
 import { createPortal } from 'react-dom'
 import { cn } from '@/lib/utils'
+import { statusEmoji } from '@/lib/status-emoji'
 
 interface TimelineBlock {
   hour: number
   quarter: number
   blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
+  status: 'online' | 'idle' | 'manual-away' | 'disconnected' | 'offline' | 'no-data' | 'collector-gap' | 'not-tracked'
   onlinePercentage: number
   activeMinutes: number
+  stateMinutes: Partial<Record<'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline', number>>
+  dndMinutes: number
   totalMinutes: number
+  messageCount: number
+  hasMessages: boolean
   blockStart: string
   blockEnd: string
 }
 
+interface StatusSpan {
+  statusText: string
+  statusEmoji: string
+  start: string
+  end: string
+}
+
 interface DayData {
   date: string
   dayName: string
   dayShort: string
   totalActiveMinutes: number
+  trackedMinutes: number
+  messageCount: number
+  focusMinutes: number
+  finalized: boolean
+  firstActiveTime: string | null
+  lastActiveTime: string | null
+  peakActivityHour: number | null
+  statusSpans: StatusSpan[]
+  categoryMinutes: Partial<Record<'meeting' | 'lunch' | 'pto' | 'sick' | 'commuting', number>>
+  timeOff: boolean
   timeline: TimelineBlock[]
 }
 
@@ -60,8 +82,18 @@ function DailyTimeline({ days, className }: DailyTimelineProps) {
     switch (status) {
       case 'online':
         return 'bg-success'
+      case 'idle':
+        return 'bg-success/30'
+      case 'manual-away':
+        return 'bg-primary/30'
+      case 'disconnected':
+        return 'bg-destructive/20'
       case 'offline':
         return 'bg-border'
+      case 'collector-gap':
+        return 'bg-warning/30'
+      case 'not-tracked':
+        return 'bg-transparent border border-dashed border-border'
       case 'no-data':
       default:
         return 'bg-muted'
@@ -90,6 +122,41 @@ function DailyTimeline({ days, className }: DailyTimelineProps) {
     return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
   }
 
+  // Collector outages and pre-tracking time say nothing about the user
+  const describeSlot = (slot: TimelineBlock) => {
+    switch (slot.status) {
+      case 'collector-gap':
+        return '(collector down - no data collected)'
+      case 'not-tracked':
+        return '(not tracked yet)'
+      case 'idle':
+        return `(idle - ${slot.activeMinutes} active min)`
+      case 'manual-away':
+        return `(set away - ${slot.activeMinutes} active min)`
+      case 'disconnected':
+        return `(disconnected - ${slot.activeMinutes} active min)`
+      default:
+        return `(${slot.activeMinutes} active min)`
+    }
+  }
+
+  // Place a status span on the day's row, as percentages of the day
+  const statusSpanStyle = (span: StatusSpan, day: DayData) => {
+    const dayStart = new Date(day.timeline[0].blockStart).getTime()
+    const dayEnd = new Date(day.timeline[day.timeline.length - 1].blockEnd).getTime()
+    const left = (new Date(span.start).getTime() - dayStart) / (dayEnd - dayStart) * 100
+    const width = (new Date(span.end).getTime() - new Date(span.start).getTime()) / (dayEnd - dayStart) * 100
+    return { left: `${left}%`, width: `${width}%` }
+  }
+
+  const describeStatus = (span: StatusSpan) => {
+    const time = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    return `${statusEmoji(span.statusEmoji)} ${span.statusText || '(no text)'} • ${time(span.start)} - ${time(span.end)}`
+  }
+
+  // Only make room for the status lane when someone actually set a status
+  const hasStatuses = days.some(day => day.statusSpans.length > 0)
+
   if (days.length === 0) {
     return (
       <div className={cn("text-center py-12 text-muted-foreground", className)}>
@@ -132,23 +199,48 @@ function DailyTimeline({ days, className }: DailyTimelineProps) {
               {new Date(day.date).getDate()}/{new Date(day.date).getMonth() + 1}
             </div>
             
-            {/* Timeline blocks */}
-            <div className="flex items-center flex-1 relative">
-              {day.timeline.map((slot) => (
-                <div
-                  key={slot.blockIndex}
-                  className={cn(
-                    "h-6 cursor-pointer transition-all hover:scale-110 flex-1 min-w-0 rounded-sm",
-                    getStatusColor(slot.status),
-                    "opacity-100"
-                  )}
-                  onMouseEnter={(e) => {
-                    const rect = e.currentTarget.getBoundingClientRect()
-                    handleSlotHover(slot, day, rect.left + rect.width / 2, rect.top - 40)
-                  }}
-                  onMouseLeave={handleSlotHoverLeave}
-                />
-              ))}
+            {/* Timeline blocks, with the custom status lane above them */}
+            <div className="flex-1 min-w-0 space-y-1">
+              {hasStatuses && (
+                <div className="relative h-4">
+                  {day.timeline.length > 0 && day.statusSpans.map((span) => (
+                    <div
+                      key={span.start}
+                      className="absolute inset-y-0 flex items-center gap-1 overflow-hidden rounded-sm bg-accent px-1 text-[10px] leading-none text-foreground"
+                      style={statusSpanStyle(span, day)}
+                      title={describeStatus(span)}
+                    >
+                      <span className="flex-shrink-0">{statusEmoji(span.statusEmoji)}</span>
+                      <span className="truncate">{span.statusText}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center relative">
+                {day.timeline.map((slot) => (
+                  <div
+                    key={slot.blockIndex}
+                    className={cn(
+                      "relative h-6 cursor-pointer transition-all hover:scale-110 flex-1 min-w-0 rounded-sm",
+                      getStatusColor(slot.status),
+                      "opacity-100"
+                    )}
+                    onMouseEnter={(e) => {
+                      const rect = e.currentTarget.getBoundingClientRect()
+                      handleSlotHover(slot, day, rect.left + rect.width / 2, rect.top - 40)
+                    }}
+                    onMouseLeave={handleSlotHoverLeave}
+                  >
+                    {slot.hasMessages && (
+                      <div className="absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-foreground/70" />
+                    )}
+                    {/* Do Not Disturb overlay */}
+                    {slot.dndMinutes > 0 && (
+                      <div className="absolute inset-x-0 top-0 h-1 rounded-t-sm bg-primary/60" />
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
             
             {/* Daily total time */}
@@ -180,7 +272,7 @@ function DailyTimeline({ days, className }: DailyTimelineProps) {
             const endQuarter = Math.floor(endMinutes / 15)
             const endTime = formatTime(endHour, endQuarter)
             
-            return `${formatDate(hoveredSlot.day.date)} ${startTime} - ${endTime} (${hoveredSlot.slot.activeMinutes} checks)`
+            return `${formatDate(hoveredSlot.day.date)} ${startTime} - ${endTime} ${describeSlot(hoveredSlot.slot)}${hoveredSlot.slot.hasMessages ? ` • ${hoveredSlot.slot.messageCount} messages` : ''}${hoveredSlot.slot.dndMinutes > 0 ? ` • DND ${hoveredSlot.slot.dndMinutes} min` : ''}`
           })()}
         </div>,
         document.body
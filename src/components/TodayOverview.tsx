@@ -9,9 +9,11 @@ interface TimelineData {
   hour: number
   quarter: number
   blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
+  status: 'online' | 'idle' | 'manual-away' | 'disconnected' | 'offline' | 'no-data' | 'collector-gap' | 'not-tracked'
   onlinePercentage: number
   activeMinutes: number
+  stateMinutes: Partial<Record<'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline', number>>
+  dndMinutes: number
   totalMinutes: number
   messageCount: number
   hasMessages: boolean
@@ -96,8 +98,18 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
     switch (status) {
       case 'online':
         return 'bg-success'
+      case 'idle':
+        return 'bg-success/30'
+      case 'manual-away':
+        return 'bg-primary/30'
+      case 'disconnected':
+        return 'bg-destructive/20'
       case 'offline':
         return 'bg-border'
+      case 'collector-gap':
+        return 'bg-warning/30'
+      case 'not-tracked':
+        return 'bg-transparent border border-dashed border-border'
       case 'no-data':
       default:
         return 'bg-muted'
@@ -122,6 +134,24 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
     return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
   }
 
+  // Collector outages and pre-tracking time say nothing about the user
+  const describeSlot = (slot: TimelineData) => {
+    switch (slot.status) {
+      case 'collector-gap':
+        return '(collector down - no data collected)'
+      case 'not-tracked':
+        return '(not tracked yet)'
+      case 'idle':
+        return `(idle - ${slot.activeMinutes} active min)`
+      case 'manual-away':
+        return `(set away - ${slot.activeMinutes} active min)`
+      case 'disconnected':
+        return `(disconnected - ${slot.activeMinutes} active min)`
+      default:
+        return `(${slot.activeMinutes} active min)`
+    }
+  }
+
 
   const formatNameAsFirstNameLastInitial = (name: string | null) => {
     if (!name) return 'Unknown'
@@ -209,6 +239,18 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
           <div className="w-3 h-3 bg-success rounded" />
           <span>Online</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-success/30 rounded" />
+          <span>Idle</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-primary/30 rounded" />
+          <span>Set Away</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-destructive/20 rounded" />
+          <span>Disconnected</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 bg-border rounded" />
           <span>Away</span>
@@ -217,6 +259,26 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
           <div className="w-3 h-3 bg-muted rounded" />
           <span>No Data</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-warning/30 rounded" />
+          <span>Collector Down</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 border border-dashed border-border rounded" />
+          <span>Not Tracked</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-3 h-3 bg-success rounded">
+            <div className="absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-foreground/70" />
+          </div>
+          <span>Posted messages</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-3 h-3 bg-success rounded">
+            <div className="absolute inset-x-0 top-0 h-1 rounded-t bg-primary/60" />
+          </div>
+          <span>Do Not Disturb</span>
+        </div>
       </div>
 
       {/* Header with time labels */}
@@ -269,7 +331,7 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
                         <div
                           key={slot.blockIndex}
                           className={cn(
-                            "h-5 cursor-pointer transition-all hover:scale-105 hover:ring-1 hover:ring-ring/50 flex-1 min-w-0 rounded-sm",
+                            "relative h-5 cursor-pointer transition-all hover:scale-105 hover:ring-1 hover:ring-ring/50 flex-1 min-w-0 rounded-sm",
                             getStatusColor(slot.status),
                             getStatusOpacity()
                           )}
@@ -278,7 +340,16 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
                             handleSlotHover(slot, user, rect.left + rect.width / 2, rect.top - 40)
                           }}
                           onMouseLeave={handleSlotHoverLeave}
-                        />
+                        >
+                          {/* Message marker - separates "online but silent" from actively posting */}
+                          {slot.hasMessages && (
+                            <div className="absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-foreground/70" />
+                          )}
+                          {/* Do Not Disturb overlay */}
+                          {slot.dndMinutes > 0 && (
+                            <div className="absolute inset-x-0 top-0 h-1 rounded-t-sm bg-primary/60" />
+                          )}
+                        </div>
                       )
                     })
                   })()}
@@ -333,7 +404,7 @@ function TodayOverview({ users, className }: TodayOverviewProps) {
             const endQuarter = Math.floor(endMinutes / 15)
             const endTime = formatTime(endHour, endQuarter)
             
-            return `${formatNameAsFirstNameLastInitial(hoveredSlot.user.name)} ${startTime} - ${endTime} (${hoveredSlot.slot.activeMinutes} checks)${hoveredSlot.slot.hasMessages ? ` • ${hoveredSlot.slot.messageCount} messages` : ''}`
+            return `${formatNameAsFirstNameLastInitial(hoveredSlot.user.name)} ${startTime} - ${endTime} ${describeSlot(hoveredSlot.slot)}${hoveredSlot.slot.hasMessages ? ` • ${hoveredSlot.slot.messageCount} messages` : ''}${hoveredSlot.slot.dndMinutes > 0 ? ` • DND ${hoveredSlot.slot.dndMinutes} min` : ''}`
           })()}
         </div>,
         document.body
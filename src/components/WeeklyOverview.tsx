@@ -7,10 +7,14 @@ interface TimelineBlock {
   hour: number
   quarter: number
   blockIndex: number
-  status: 'online' | 'offline' | 'no-data'
+  status: 'online' | 'idle' | 'manual-away' | 'disconnected' | 'offline' | 'no-data' | 'collector-gap' | 'not-tracked'
   onlinePercentage: number
   activeMinutes: number
+  stateMinutes: Partial<Record<'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline', number>>
+  dndMinutes: number
   totalMinutes: number
+  messageCount: number
+  hasMessages: boolean
   blockStart: string
   blockEnd: string
 }
@@ -20,6 +24,15 @@ interface DayData {
   dayName: string
   dayShort: string
   totalActiveMinutes: number
+  trackedMinutes: number
+  messageCount: number
+  focusMinutes: number
+  finalized: boolean
+  firstActiveTime: string | null
+  lastActiveTime: string | null
+  peakActivityHour: number | null
+  categoryMinutes: Partial<Record<'meeting' | 'lunch' | 'pto' | 'sick' | 'commuting', number>>
+  timeOff: boolean
   timeline: TimelineBlock[]
 }
 
@@ -54,6 +67,18 @@ function WeeklyOverview({ days, className }: WeeklyOverviewProps) {
     }
   }
 
+  // Days lost entirely to collector outages or before tracking began don't count
+  // against averages, and neither do PTO and sick days
+  const trackedDays = days.filter(day => day.trackedMinutes > 0 && !day.timeOff)
+
+  const categoryLabels: Record<string, string> = {
+    meeting: 'Meetings',
+    lunch: 'Lunch',
+    pto: 'PTO',
+    sick: 'Sick',
+    commuting: 'Commuting'
+  }
+
   // Group days into weeks
   const weeks: DayData[][] = []
   let currentWeek: DayData[] = []
@@ -76,6 +101,18 @@ function WeeklyOverview({ days, className }: WeeklyOverviewProps) {
     })
   }
 
+  const formatTime = (isoString: string) => {
+    return new Date(isoString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const formatHour = (hour: number) => {
+    const suffix = hour < 12 ? 'am' : 'pm'
+    return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`
+  }
+
   const getDayOfWeek = (dateStr: string) => {
     const date = new Date(dateStr)
     return date.toLocaleDateString('en-US', { weekday: 'short' })
@@ -132,6 +169,9 @@ function WeeklyOverview({ days, className }: WeeklyOverviewProps) {
                       <div className="p-2 h-full flex flex-col justify-between">
                         <div className="text-xs font-medium text-foreground/80">
                           {getDayOfWeek(day.date)}
+                          {day.timeOff && (
+                            <span className="ml-1 text-muted-foreground">{day.categoryMinutes.sick ? 'Sick' : 'PTO'}</span>
+                          )}
                         </div>
                         <div className="text-right">
                           <div className="text-xs text-muted-foreground">
@@ -146,7 +186,30 @@ function WeeklyOverview({ days, className }: WeeklyOverviewProps) {
                     
                     {/* Tooltip */}
                     <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-card border border-border text-card-foreground text-xs rounded shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
-                      {formatDate(day.date)}: {formatMinutes(day.totalActiveMinutes)}
+                      <div>{formatDate(day.date)}: {formatMinutes(day.totalActiveMinutes)}</div>
+                      {day.firstActiveTime && day.lastActiveTime && (
+                        <div className="text-muted-foreground">
+                          {formatTime(day.firstActiveTime)} – {formatTime(day.lastActiveTime)}
+                        </div>
+                      )}
+                      {day.focusMinutes > 0 && (
+                        <div className="text-muted-foreground">
+                          Focus (DND): {formatMinutes(day.focusMinutes)}
+                        </div>
+                      )}
+                      {day.peakActivityHour !== null && (
+                        <div className="text-muted-foreground">
+                          Peak: {formatHour(day.peakActivityHour)}
+                        </div>
+                      )}
+                      {Object.entries(day.categoryMinutes).map(([category, minutes]) => (
+                        <div key={category} className="text-muted-foreground">
+                          {categoryLabels[category] || category}: {formatMinutes(minutes || 0)}
+                        </div>
+                      ))}
+                      {day.timeOff && (
+                        <div className="text-muted-foreground">Not counted in averages</div>
+                      )}
                     </div>
                   </div>
                 )
@@ -174,14 +237,14 @@ function WeeklyOverview({ days, className }: WeeklyOverviewProps) {
         
         <div className="text-center">
           <div className="text-lg font-semibold text-foreground">
-            {formatMinutes(Math.round(days.reduce((sum, day) => sum + day.totalActiveMinutes, 0) / days.length))}
+            {formatMinutes(Math.round(trackedDays.reduce((sum, day) => sum + day.totalActiveMinutes, 0) / Math.max(1, trackedDays.length)))}
           </div>
           <div className="text-xs text-muted-foreground">Daily Avg</div>
         </div>
         
         <div className="text-center">
           <div className="text-lg font-semibold text-foreground">
-            {Math.round((days.filter(day => day.totalActiveMinutes > 0).length / days.length) * 100)}%
+            {Math.round((trackedDays.filter(day => day.totalActiveMinutes > 0).length / Math.max(1, trackedDays.length)) * 100)}%
           </div>
           <div className="text-xs text-muted-foreground">Consistency</div>
         </div>
@@ -0,0 +1,205 @@
+import { prisma } from './db'
+import { PRESENCE_INTERVAL_MAX_GAP_MS } from './presence-intervals'
+
+// Ledger of presence collection runs, one entry per workspace per run. Every run
+// is recorded whether it succeeds, fails or stands down for the presence worker,
+// so a hole in a workspace's ledger means the collector itself was down for it
+// rather than its users being offline.
+
+export type CollectionRunSource = 'cron' | 'init'
+export type CollectionRunStatus = 'running' | 'completed' | 'skipped' | 'failed'
+
+export interface CollectionUserResult {
+  userId: string
+  ok: boolean
+  error?: string
+}
+
+export interface CollectionRunSummary {
+  id: string
+  requestId: string
+  source: string
+  slackTeamId: string | null
+  status: string
+  startedAt: Date
+  finishedAt: Date | null
+  durationMs: number | null
+  tokenType: string | null
+  usersTotal: number
+  successCount: number
+  errorCount: number
+  error: string | null
+  userResults?: CollectionUserResult[]
+}
+
+export interface CollectorGap {
+  start: Date
+  end: Date
+  durationMinutes: number
+}
+
+// Runs that mean presence was being collected at that moment. Skipped runs stood
+// down because the presence worker was live, which is coverage too.
+const COVERING_STATUSES: CollectionRunStatus[] = ['completed', 'skipped']
+
+// A run for one workspace, or for none when it failed before it knew its workspaces
+export async function startCollectionRun(requestId: string, source: CollectionRunSource, slackTeamId: string | null = null) {
+  const run = await prisma.collectionRun.create({
+    data: { requestId, source, slackTeamId }
+  })
+  return run.id
+}
+
+// Start an entry for each workspace a run covers, keyed by team. A ledger write
+// failure is logged and that workspace just goes unrecorded.
+export async function startCollectionRunsSafely(requestId: string, source: CollectionRunSource, slackTeamIds: string[]) {
+  const runIds = new Map<string, string>()
+  for (const slackTeamId of slackTeamIds) {
+    try {
+      runIds.set(slackTeamId, await startCollectionRun(requestId, source, slackTeamId))
+    } catch (error) {
+      console.error(`❌ Failed to start collection run record for ${slackTeamId}:`, error)
+    }
+  }
+  return runIds
+}
+
+export async function finishCollectionRun(runId: string, outcome: {
+  status: Exclude<CollectionRunStatus, 'running'>
+  // "bot", "user" or "simulated"
+  tokenType?: string | null
+  userResults?: CollectionUserResult[]
+  error?: string
+}) {
+  const run = await prisma.collectionRun.findUnique({
+    where: { id: runId },
+    select: { startedAt: true }
+  })
+  const finishedAt = new Date()
+  const userResults = outcome.userResults || []
+
+  await prisma.collectionRun.update({
+    where: { id: runId },
+    data: {
+      status: outcome.status,
+      finishedAt,
+      durationMs: run ? finishedAt.getTime() - run.startedAt.getTime() : null,
+      tokenType: outcome.tokenType ?? null,
+      usersTotal: userResults.length,
+      successCount: userResults.filter(result => result.ok).length,
+      errorCount: userResults.filter(result => !result.ok).length,
+      userResults: userResults.length > 0 ? JSON.stringify(userResults) : null,
+      error: outcome.error ?? null
+    }
+  })
+}
+
+// Record the outcome without letting a ledger write failure break the collection itself
+export async function finishCollectionRunSafely(runId: string | null, outcome: Parameters<typeof finishCollectionRun>[1]) {
+  if (!runId) return
+  try {
+    await finishCollectionRun(runId, outcome)
+  } catch (error) {
+    console.error(`❌ Failed to record collection run ${runId}:`, error)
+  }
+}
+
+// A workspace where every user failed wasn't collected at all, so its run is
+// failed rather than completed with everyone missing
+export function noUsersCollectedError(userResults: CollectionUserResult[]) {
+  return userResults.length > 0 && !userResults.some(result => result.ok)
+    ? 'Presence could not be collected for any user'
+    : undefined
+}
+
+// For a run that failed before it knew which workspaces it was collecting
+export async function recordFailedCollectionRun(requestId: string, source: CollectionRunSource, error: string) {
+  try {
+    const runId = await startCollectionRun(requestId, source)
+    await finishCollectionRun(runId, { status: 'failed', error })
+  } catch (ledgerError) {
+    console.error(`❌ Failed to record failed collection run ${requestId}:`, ledgerError)
+  }
+}
+
+export async function getCollectionRuns(
+  start: Date,
+  end: Date,
+  options: { includeUserResults?: boolean; limit?: number; slackTeamId?: string } = {}
+): Promise<CollectionRunSummary[]> {
+  const runs = await prisma.collectionRun.findMany({
+    where: {
+      startedAt: { gte: start, lte: end },
+      ...(options.slackTeamId ? { slackTeamId: options.slackTeamId } : {})
+    },
+    orderBy: { startedAt: 'desc' },
+    take: options.limit ?? 500
+  })
+
+  return runs.map(({ userResults, ...run }) => ({
+    ...run,
+    ...(options.includeUserResults
+      ? { userResults: userResults ? JSON.parse(userResults) as CollectionUserResult[] : [] }
+      : {})
+  }))
+}
+
+// Runs from before the ledger was kept per workspace have no team. They polled
+// every installed workspace, so they count for all of them.
+function teamRuns(slackTeamId: string) {
+  return { OR: [{ slackTeamId }, { slackTeamId: null }] }
+}
+
+// Windows inside [start, end] with no covering run for the workspace for longer
+// than maxGapMs. Time before the first recorded run is unknown rather than a gap,
+// since the ledger didn't exist yet.
+export async function findCollectorGaps(
+  slackTeamId: string,
+  start: Date,
+  end: Date,
+  maxGapMs: number = PRESENCE_INTERVAL_MAX_GAP_MS
+): Promise<CollectorGap[]> {
+  const now = new Date()
+  const windowEnd = end < now ? end : now
+
+  const firstRun = await prisma.collectionRun.findFirst({
+    where: teamRuns(slackTeamId),
+    orderBy: { startedAt: 'asc' },
+    select: { startedAt: true }
+  })
+  if (!firstRun || firstRun.startedAt > windowEnd) return []
+
+  const runs = await prisma.collectionRun.findMany({
+    where: {
+      ...teamRuns(slackTeamId),
+      status: { in: COVERING_STATUSES },
+      startedAt: { gte: new Date(start.getTime() - maxGapMs), lte: windowEnd }
+    },
+    select: { startedAt: true },
+    orderBy: { startedAt: 'asc' }
+  })
+
+  // Measure each gap from the last covering run, but only report the part inside the window
+  const floor = start < firstRun.startedAt ? firstRun.startedAt : start
+  const gaps: CollectorGap[] = []
+  const addGap = (lastCovered: Date, nextCovered: Date) => {
+    if (nextCovered.getTime() - lastCovered.getTime() <= maxGapMs) return
+    const gapStart = lastCovered < floor ? floor : lastCovered
+    gaps.push({
+      start: gapStart,
+      end: nextCovered,
+      durationMinutes: Math.round((nextCovered.getTime() - gapStart.getTime()) / (60 * 1000))
+    })
+  }
+
+  let previous = floor
+  for (const run of runs) {
+    if (run.startedAt > floor) {
+      addGap(previous, run.startedAt)
+    }
+    previous = run.startedAt
+  }
+  addGap(previous, windowEnd)
+
+  return gaps
+}
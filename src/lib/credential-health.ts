@@ -0,0 +1,185 @@
+import { prisma } from './db'
+import { slackApi, SlackApiError } from './slack'
+import {
+  clearStoredToken,
+  getInstalledWorkspaces,
+  getWorkspaceTokenCandidates,
+  type TokenSource,
+  type WorkspaceToken
+} from './installations'
+
+// Tracks whether each workspace still has a Slack token that works. When the one
+// in use is revoked, collectors fail over to the next stored token instead of
+// recording everyone as offline, and the dashboard says what happened.
+
+export type CredentialStatus = 'healthy' | 'degraded' | 'failed'
+
+export interface WorkspaceCredentialHealth {
+  slackTeamId: string
+  status: CredentialStatus
+  tokenType: string | null
+  message: string | null
+  checkedAt: Date
+  changedAt: Date
+}
+
+// Slack errors that mean the token itself is dead, not that the call failed
+const AUTH_ERROR_CODES = ['invalid_auth', 'not_authed', 'token_revoked', 'token_expired', 'account_inactive']
+
+export function isAuthError(error: unknown): error is SlackApiError {
+  return error instanceof SlackApiError && AUTH_ERROR_CODES.includes(error.code)
+}
+
+function describeSource(source: TokenSource) {
+  if (source.kind === 'simulator') return 'the simulator'
+  return source.kind === 'user' ? 'a user token' : `the installation's ${source.tokenType} token`
+}
+
+export async function recordCredentialHealth(
+  slackTeamId: string,
+  health: { status: CredentialStatus; tokenType?: string | null; message?: string | null }
+) {
+  const now = new Date()
+  const existing = await prisma.credentialHealth.findUnique({ where: { slackTeamId } })
+  const data = {
+    status: health.status,
+    tokenType: health.tokenType ?? null,
+    message: health.message ?? null,
+    checkedAt: now,
+    changedAt: existing && existing.status === health.status ? existing.changedAt : now
+  }
+
+  if (!existing || existing.status !== health.status) {
+    const log = health.status === 'healthy' ? console.log : console.warn
+    log(`${health.status === 'healthy' ? '✅' : '⚠️'} Slack credentials for ${slackTeamId} are ${health.status}${health.message ? `: ${health.message}` : ''}`)
+  }
+
+  await prisma.credentialHealth.upsert({
+    where: { slackTeamId },
+    create: { slackTeamId, ...data },
+    update: data
+  })
+}
+
+// Drop a token Slack rejected and note it against the workspace
+export async function retireToken(workspace: WorkspaceToken, reason: string) {
+  console.warn(`🔒 Slack rejected ${describeSource(workspace.source)} for ${workspace.teamName || workspace.slackTeamId} (${reason}) - removing it`)
+  try {
+    await clearStoredToken(workspace.source)
+  } catch (error) {
+    // Already gone, e.g. the installation was deleted by an uninstall event
+    console.warn(`⚠️ Could not clear revoked token for ${workspace.slackTeamId}:`, error instanceof Error ? error.message : String(error))
+  }
+}
+
+// The first stored token for a workspace that Slack still accepts, checked with
+// auth.test. Rejected tokens are cleared along the way and the outcome is saved
+// as the workspace's credential health. Returns null when none work.
+export async function resolveWorkspaceToken(slackTeamId: string): Promise<WorkspaceToken | null> {
+  const candidates = await getWorkspaceTokenCandidates(slackTeamId)
+  const retired: string[] = []
+
+  for (const candidate of candidates) {
+    try {
+      await slackApi('auth.test', candidate.token, {}, { slackTeamId })
+    } catch (error) {
+      if (isAuthError(error)) {
+        await retireToken(candidate, error.code)
+        retired.push(`${describeSource(candidate.source)} (${error.code})`)
+        continue
+      }
+      // Slack being down or rate limiting says nothing about the token - use it and let the caller deal
+      console.warn(`⚠️ Could not verify the Slack token for ${slackTeamId}:`, error instanceof Error ? error.message : String(error))
+      return candidate
+    }
+
+    // Anything but the installation's own tokens is a fallback
+    const isFallback = retired.length > 0 || candidate.source.kind === 'user'
+    await recordCredentialHealth(slackTeamId, {
+      status: isFallback ? 'degraded' : 'healthy',
+      tokenType: candidate.tokenType,
+      message: isFallback
+        ? `Collecting with ${describeSource(candidate.source)}${retired.length > 0 ? ` because Slack rejected ${retired.join(', ')}` : ''}. Reinstall the app to restore the workspace token.`
+        : null
+    })
+    return candidate
+  }
+
+  await recordCredentialHealth(slackTeamId, {
+    status: 'failed',
+    message: candidates.length === 0
+      ? 'No Slack token is stored for this workspace. Reinstall the app or sign in again to resume collection.'
+      : `Slack rejected every stored token (${retired.join(', ')}). Reinstall the app or sign in again to resume collection.`
+  })
+  return null
+}
+
+// A token Slack rejected in the middle of a collection run: drop it and switch to
+// the next stored token that works. Null when the workspace has none left.
+export async function replaceRevokedToken(workspace: WorkspaceToken, reason: string) {
+  await retireToken(workspace, reason)
+  return resolveWorkspaceToken(workspace.slackTeamId)
+}
+
+// A working token for every installed workspace. Workspaces without one are
+// left out - their credential health explains why.
+export async function getHealthyWorkspaceTokens(): Promise<WorkspaceToken[]> {
+  const workspaces = await getInstalledWorkspaces()
+  const resolved: WorkspaceToken[] = []
+
+  for (const workspace of workspaces) {
+    const token = await resolveWorkspaceToken(workspace.slackTeamId)
+    if (token) resolved.push(token)
+  }
+  return resolved
+}
+
+// A tokens_revoked event: Slack lists the user ids whose user tokens and the
+// bot user ids whose bot tokens were revoked
+export async function revokeSlackTokens(
+  slackTeamId: string,
+  revoked: { oauth?: string[]; bot?: string[] }
+) {
+  const userIds = revoked.oauth || []
+  const botUserIds = revoked.bot || []
+
+  const installations = await prisma.installation.updateMany({
+    where: { OR: [{ slackTeamId }, { workspaceIds: { has: slackTeamId } }], installerSlackUserId: { in: userIds } },
+    data: { userToken: null, userScopes: null }
+  })
+  const bots = await prisma.installation.updateMany({
+    where: { OR: [{ slackTeamId }, { workspaceIds: { has: slackTeamId } }], botUserId: { in: botUserIds } },
+    data: { botToken: null }
+  })
+  const users = await prisma.user.updateMany({
+    where: { slackUserId: { in: userIds } },
+    data: { slackAccessToken: null, hasSlackToken: false }
+  })
+
+  console.log(`🔒 Slack revoked tokens for ${slackTeamId}: ${installations.count + users.count} user tokens, ${bots.count} bot tokens removed`)
+
+  // Pick the next token now rather than on the next collection run
+  await resolveWorkspaceToken(slackTeamId)
+}
+
+// An app_uninstalled event: Slack revokes every token the app had in these workspaces
+export async function markWorkspacesUninstalled(slackTeamIds: string[]) {
+  await prisma.user.updateMany({
+    where: { slackTeamId: { in: slackTeamIds }, hasSlackToken: true },
+    data: { slackAccessToken: null, hasSlackToken: false }
+  })
+  for (const slackTeamId of slackTeamIds) {
+    await recordCredentialHealth(slackTeamId, {
+      status: 'failed',
+      message: 'The Slack app was uninstalled from this workspace. Reinstall it to resume collection.'
+    })
+  }
+}
+
+// Workspaces whose credentials need attention (all of them unless narrowed down), for the dashboard banner
+export async function getCredentialProblems(slackTeamIds?: string[]): Promise<WorkspaceCredentialHealth[]> {
+  const rows = await prisma.credentialHealth.findMany({
+    where: { ...(slackTeamIds ? { slackTeamId: { in: slackTeamIds } } : {}), status: { not: 'healthy' } }
+  })
+  return rows.map(row => ({ ...row, status: row.status as CredentialStatus }))
+}
@@ -0,0 +1,351 @@
+import { Prisma, type DailySummary } from '@prisma/client'
+import { prisma } from './db'
+import { getPresenceIntervalsByUser, type PresenceIntervalSpan, type PresenceState } from './presence-intervals'
+import { focusMinutes, getDndSpansByUser } from './dnd'
+import { bucketActiveMinutes, getPresenceBuckets, type PresenceBucketSpan } from './presence-buckets'
+import { getMessageTimesByUser } from './message-activity'
+import { findCollectorGaps, type CollectorGap } from './collection-runs'
+import { buildDayTimeline, summarizeTimeline, type PresenceBlock } from './presence-timeline'
+import { clipStatusSpans, getStatusHistory, type StatusLaneSpan, type StatusSpan } from './status-history'
+import {
+  getStatusRules,
+  isTimeOffDay,
+  statusCategoryMinutes,
+  type StatusCategory,
+  type StatusClassifierRule
+} from './status-classifier'
+import { addDays, localDateKey, zonedDayBounds } from './timezone'
+
+// Per-user, per-local-day rollups of presence intervals. DailySummary.date holds
+// the user's local calendar date at UTC midnight; the figures cover that local day.
+// A finalized summary holds everything the activity view shows for the day, so
+// past days are read from it alone.
+
+export interface DailySummaryFigures {
+  totalActiveMinutes: number
+  firstActiveTime: Date | null
+  lastActiveTime: Date | null
+  peakActivityHour: number | null
+  focusMinutes: number
+}
+
+// A whole day as the activity view shows it
+export interface DaySnapshot extends DailySummaryFigures {
+  trackedMinutes: number
+  stateMinutes: Partial<Record<PresenceState, number>>
+  messageCount: number
+  timeline: PresenceBlock[]
+  statusSpans: StatusLaneSpan[]
+  categoryMinutes: Partial<Record<StatusCategory, number>>
+  timeOff: boolean
+}
+
+// What a day is built from
+export interface DayInputs {
+  intervals: PresenceIntervalSpan[]
+  dndSpans: PresenceIntervalSpan[]
+  buckets: PresenceBucketSpan[]
+  messageTimes: Date[]
+  gaps: CollectorGap[]
+  statuses: StatusSpan[]
+  statusRules: StatusClassifierRule[]
+  trackedSince: Date
+}
+
+export interface SummaryUser {
+  id: string
+  timezone: string | null
+  slackTeamId: string | null
+  createdAt: Date
+}
+
+export type SummaryAction = 'created' | 'updated' | 'unchanged' | 'skipped'
+
+export function summaryDate(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00.000Z`)
+}
+
+// Fold a day's intervals into the DailySummary figures. Hours are counted from
+// local midnight, so on DST change days the peak hour can be off by one.
+export function summarizeDay(
+  intervals: PresenceIntervalSpan[],
+  dayStart: Date,
+  dayEnd: Date,
+  dndSpans: PresenceIntervalSpan[] = []
+): DailySummaryFigures {
+  const activeMsByHour = new Map<number, number>()
+  let activeMs = 0
+  let firstActiveTime: Date | null = null
+  let lastActiveTime: Date | null = null
+
+  for (const interval of intervals) {
+    if (interval.status !== 'active') continue
+
+    const start = Math.max(interval.startedAt.getTime(), dayStart.getTime())
+    const end = Math.min(interval.endedAt.getTime(), dayEnd.getTime())
+    if (end < start) continue
+
+    activeMs += end - start
+    if (!firstActiveTime || start < firstActiveTime.getTime()) firstActiveTime = new Date(start)
+    if (!lastActiveTime || end > lastActiveTime.getTime()) lastActiveTime = new Date(end)
+
+    // Split the overlap across the local hours it touches
+    for (let cursor = start; cursor < end;) {
+      const hour = Math.floor((cursor - dayStart.getTime()) / (60 * 60 * 1000))
+      const hourEnd = Math.min(end, dayStart.getTime() + (hour + 1) * 60 * 60 * 1000)
+      activeMsByHour.set(hour, (activeMsByHour.get(hour) || 0) + hourEnd - cursor)
+      cursor = hourEnd
+    }
+  }
+
+  let peakActivityHour: number | null = null
+  let peakMs = 0
+  activeMsByHour.forEach((ms, hour) => {
+    if (ms > peakMs) {
+      peakMs = ms
+      peakActivityHour = Math.min(hour, 23)
+    }
+  })
+
+  return {
+    totalActiveMinutes: Math.round(activeMs / (60 * 1000)),
+    firstActiveTime,
+    lastActiveTime,
+    peakActivityHour,
+    focusMinutes: focusMinutes(intervals, dndSpans, dayStart, dayEnd)
+  }
+}
+
+// The same figures from 15-minute buckets, for days whose raw logs were pruned
+// before they were ever turned into intervals. Buckets predate DND tracking, so
+// there's no focus time.
+export function summarizeBuckets(buckets: PresenceBucketSpan[], dayStart: Date): DailySummaryFigures {
+  const activeMinutesByHour = new Map<number, number>()
+  let activeMinutes = 0
+  let firstActiveTime: Date | null = null
+  let lastActiveTime: Date | null = null
+
+  for (const bucket of buckets) {
+    const minutes = bucketActiveMinutes(bucket)
+    if (minutes === 0) continue
+
+    activeMinutes += minutes
+    if (bucket.firstActiveAt && (!firstActiveTime || bucket.firstActiveAt < firstActiveTime)) firstActiveTime = bucket.firstActiveAt
+    if (bucket.lastActiveAt && (!lastActiveTime || bucket.lastActiveAt > lastActiveTime)) lastActiveTime = bucket.lastActiveAt
+
+    const hour = Math.floor((bucket.bucketStart.getTime() - dayStart.getTime()) / (60 * 60 * 1000))
+    activeMinutesByHour.set(hour, (activeMinutesByHour.get(hour) || 0) + minutes)
+  }
+
+  let peakActivityHour: number | null = null
+  let peakMinutes = 0
+  activeMinutesByHour.forEach((minutes, hour) => {
+    if (minutes > peakMinutes) {
+      peakMinutes = minutes
+      peakActivityHour = Math.min(hour, 23)
+    }
+  })
+
+  return {
+    totalActiveMinutes: Math.round(activeMinutes),
+    firstActiveTime,
+    lastActiveTime,
+    peakActivityHour,
+    focusMinutes: 0
+  }
+}
+
+// Everything a user's days in [start, end) are built from, fetched once
+export async function loadDayInputs(user: SummaryUser, start: Date, end: Date): Promise<DayInputs> {
+  const [intervals, dndSpans, buckets, messageTimes, gaps, statuses, statusRules] = await Promise.all([
+    getPresenceIntervalsByUser([user.id], start, end).then(byUser => byUser.get(user.id) || []),
+    getDndSpansByUser([user.id], start, end).then(byUser => byUser.get(user.id) || []),
+    getPresenceBuckets(user.id, start, end),
+    getMessageTimesByUser([user.id], start, end).then(byUser => byUser.get(user.id) || []),
+    // Windows where the collector wasn't running for their workspace, so they aren't shown as the user being offline
+    user.slackTeamId ? findCollectorGaps(user.slackTeamId, start, end) : Promise.resolve([]),
+    getStatusHistory(user.id, start, end),
+    getStatusRules(user.slackTeamId)
+  ])
+  return { intervals, dndSpans, buckets, messageTimes, gaps, statuses, statusRules, trackedSince: user.createdAt }
+}
+
+// Just the part of a longer range's inputs that touches [start, end)
+export function sliceDayInputs(inputs: DayInputs, start: Date, end: Date): DayInputs {
+  const touches = (from: Date, to: Date | null) => from < end && (!to || to >= start)
+  return {
+    ...inputs,
+    intervals: inputs.intervals.filter(interval => touches(interval.startedAt, interval.endedAt)),
+    dndSpans: inputs.dndSpans.filter(span => touches(span.startedAt, span.endedAt)),
+    buckets: inputs.buckets.filter(bucket => bucket.bucketStart >= start && bucket.bucketStart < end),
+    messageTimes: inputs.messageTimes.filter(postedAt => postedAt >= start && postedAt < end),
+    gaps: inputs.gaps.filter(gap => touches(gap.start, gap.end)),
+    statuses: inputs.statuses.filter(status => touches(status.startedAt, status.endedAt))
+  }
+}
+
+// The whole day: timeline, totals and status lane. Days with no intervals fall
+// back to presence buckets for their figures.
+export function buildDaySnapshot(dayStart: Date, dayEnd: Date, inputs: DayInputs): DaySnapshot {
+  const timeline = buildDayTimeline(dayStart, inputs.intervals, inputs.messageTimes, inputs.dndSpans, {
+    trackedSince: inputs.trackedSince,
+    gaps: inputs.gaps
+  })
+  const { trackedMinutes, stateMinutes, messageCount } = summarizeTimeline(timeline)
+  const figures = inputs.intervals.length > 0 || inputs.buckets.length === 0
+    ? summarizeDay(inputs.intervals, dayStart, dayEnd, inputs.dndSpans)
+    : summarizeBuckets(inputs.buckets, dayStart)
+  const categoryMinutes = statusCategoryMinutes(inputs.statuses, inputs.statusRules, dayStart, dayEnd)
+
+  return {
+    ...figures,
+    trackedMinutes,
+    stateMinutes,
+    messageCount,
+    timeline,
+    statusSpans: clipStatusSpans(inputs.statuses, dayStart, dayEnd),
+    categoryMinutes,
+    timeOff: isTimeOffDay(categoryMinutes, dayStart, dayEnd)
+  }
+}
+
+// Prisma's JSON input type doesn't take interfaces, though these are plain JSON
+function json(value: object) {
+  return value as Prisma.InputJsonValue
+}
+
+// jsonb doesn't keep key order, so JSON columns are compared with sorted keys
+function stableJson(value: unknown) {
+  return JSON.stringify(value, (_key, field) => field && typeof field === 'object' && !Array.isArray(field)
+    ? Object.fromEntries(Object.entries(field).sort(([a], [b]) => a.localeCompare(b)))
+    : field)
+}
+
+function sameSnapshot(existing: DailySummary, snapshot: DaySnapshot) {
+  return existing.totalActiveMinutes === snapshot.totalActiveMinutes &&
+    existing.firstActiveTime?.getTime() === snapshot.firstActiveTime?.getTime() &&
+    existing.lastActiveTime?.getTime() === snapshot.lastActiveTime?.getTime() &&
+    existing.peakActivityHour === snapshot.peakActivityHour &&
+    existing.focusMinutes === snapshot.focusMinutes &&
+    existing.trackedMinutes === snapshot.trackedMinutes &&
+    existing.messageCount === snapshot.messageCount &&
+    existing.timeOff === snapshot.timeOff &&
+    stableJson(existing.stateMinutes) === stableJson(snapshot.stateMinutes) &&
+    stableJson(existing.categoryMinutes) === stableJson(snapshot.categoryMinutes) &&
+    stableJson(existing.statusSpans) === stableJson(snapshot.statusSpans) &&
+    stableJson(existing.timeline) === stableJson(snapshot.timeline)
+}
+
+// Recompute one user's summary for a local day. Safe to run repeatedly -
+// unchanged summaries are left alone. Days with no data get a summary too, so
+// the daily job doesn't keep coming back to them; only days from before the
+// user was tracked, with nothing recorded, are skipped.
+export async function rebuildDailySummary(
+  user: SummaryUser,
+  dateKey: string,
+  options: { dryRun?: boolean; source?: string } = {}
+): Promise<{ action: SummaryAction; snapshot: DaySnapshot }> {
+  const { start, end } = zonedDayBounds(dateKey, user.timezone)
+  const inputs = await loadDayInputs(user, start, end)
+  const snapshot = buildDaySnapshot(start, end, inputs)
+
+  const existing = await prisma.dailySummary.findUnique({
+    where: { userId_date: { userId: user.id, date: summaryDate(dateKey) } }
+  })
+
+  const hasData = inputs.intervals.length > 0 || inputs.buckets.length > 0 || inputs.messageTimes.length > 0
+  if (!existing && !hasData && end <= user.createdAt) {
+    return { action: 'skipped', snapshot }
+  }
+  if (existing && sameSnapshot(existing, snapshot)) {
+    return { action: 'unchanged', snapshot }
+  }
+  if (options.dryRun) {
+    return { action: existing ? 'updated' : 'created', snapshot }
+  }
+
+  const metadata = JSON.stringify({
+    timezone: user.timezone,
+    source: options.source || 'backfill',
+    computedAt: new Date().toISOString()
+  })
+  const data = {
+    ...snapshot,
+    stateMinutes: json(snapshot.stateMinutes),
+    timeline: json(snapshot.timeline),
+    statusSpans: json(snapshot.statusSpans),
+    categoryMinutes: json(snapshot.categoryMinutes),
+    metadata
+  }
+
+  await prisma.dailySummary.upsert({
+    where: { userId_date: { userId: user.id, date: summaryDate(dateKey) } },
+    create: { userId: user.id, date: summaryDate(dateKey), ...data },
+    update: data
+  })
+
+  return { action: existing ? 'updated' : 'created', snapshot }
+}
+
+// Finalize summaries for local days that have ended. Looks back a few days so a
+// missed run catches up; days that already have a summary are left to the backfill.
+// Days that ended before the user was tracked are skipped without being computed.
+export async function finalizeDailySummaries(users: SummaryUser[], lookbackDays: number = 3) {
+  const totals: Record<SummaryAction, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0 }
+
+  for (const user of users) {
+    const today = localDateKey(new Date(), user.timezone)
+    const dateKeys = Array.from({ length: lookbackDays }, (_, index) => addDays(today, -(index + 1)))
+
+    const existing = await prisma.dailySummary.findMany({
+      // Summaries from before they held the day's timeline are finalized again
+      where: { userId: user.id, date: { in: dateKeys.map(summaryDate) }, timeline: { not: Prisma.DbNull } },
+      select: { date: true }
+    })
+    const finalized = new Set(existing.map(summary => summary.date.toISOString().split('T')[0]))
+
+    for (const dateKey of dateKeys) {
+      if (finalized.has(dateKey)) {
+        totals.unchanged++
+        continue
+      }
+      if (zonedDayBounds(dateKey, user.timezone).end <= user.createdAt) {
+        totals.skipped++
+        continue
+      }
+      const { action } = await rebuildDailySummary(user, dateKey, { source: 'daily-job' })
+      totals[action]++
+    }
+  }
+
+  return totals
+}
+
+// Finalized summaries for a user, keyed by local date. Summaries from before
+// they held the day's timeline are left out, so those days are computed live
+// until the backfill or the daily job rebuilds them.
+export async function getDailySummaries(userId: string, fromKey: string, toKey: string): Promise<Map<string, DaySnapshot>> {
+  const summaries = await prisma.dailySummary.findMany({
+    where: {
+      userId,
+      date: { gte: summaryDate(fromKey), lte: summaryDate(toKey) },
+      timeline: { not: Prisma.DbNull }
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  return new Map(summaries.map(summary => [summary.date.toISOString().split('T')[0], {
+    totalActiveMinutes: summary.totalActiveMinutes,
+    firstActiveTime: summary.firstActiveTime,
+    lastActiveTime: summary.lastActiveTime,
+    peakActivityHour: summary.peakActivityHour,
+    focusMinutes: summary.focusMinutes,
+    trackedMinutes: summary.trackedMinutes,
+    messageCount: summary.messageCount,
+    timeOff: summary.timeOff,
+    stateMinutes: (summary.stateMinutes ?? {}) as DaySnapshot['stateMinutes'],
+    categoryMinutes: (summary.categoryMinutes ?? {}) as DaySnapshot['categoryMinutes'],
+    statusSpans: (summary.statusSpans ?? []) as unknown as StatusLaneSpan[],
+    timeline: summary.timeline as unknown as PresenceBlock[]
+  }]))
+}
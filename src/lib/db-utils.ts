@@ -32,10 +32,14 @@ export async function getDatabaseStats() {
     // This would need to be implemented at the database level
     const userCount = await prisma.user.count()
     const presenceLogCount = await prisma.presenceLog.count()
+    const presenceIntervalCount = await prisma.presenceInterval.count()
+    const presenceBucketCount = await prisma.presenceBucket.count()
     
     return {
       userCount,
       presenceLogCount,
+      presenceIntervalCount,
+      presenceBucketCount,
       timestamp: new Date().toISOString()
     }
   } catch (error) {
@@ -0,0 +1,176 @@
+import { prisma } from './db'
+import { getTeamDndInfo, type SlackDndStatus } from './slack'
+import {
+  applyObservations,
+  collectionSlot,
+  PRESENCE_INTERVAL_MAX_GAP_MS,
+  type PendingInterval,
+  type PresenceIntervalSpan
+} from './presence-intervals'
+
+// Do Not Disturb tracking. DND is sampled alongside presence and stored the same
+// way: one dnd_intervals row per stretch of unchanged status.
+
+export type DndStatus = 'scheduled' | 'snooze' | 'off'
+
+export type DndSource = 'poll' | 'event' | 'rtm'
+
+export interface DndObservation {
+  userId: string
+  status: DndStatus
+  observedAt: Date
+  source: DndSource
+}
+
+// Whether Slack's DND fields put the user in DND at this instant. A manual snooze
+// wins over their schedule.
+export function dndStatusAt(dnd: SlackDndStatus, at: Date): DndStatus {
+  const seconds = at.getTime() / 1000
+
+  if (dnd.snooze_enabled && (!dnd.snooze_endtime || dnd.snooze_endtime > seconds)) {
+    return 'snooze'
+  }
+  if (dnd.dnd_enabled && dnd.next_dnd_start_ts <= seconds && seconds < dnd.next_dnd_end_ts) {
+    return 'scheduled'
+  }
+  return 'off'
+}
+
+// Record DND observations, extending each user's current interval while the
+// status holds and opening a new one when it changes
+export async function recordDndObservations(observations: DndObservation[]) {
+  if (observations.length === 0) return { extended: 0, opened: 0 }
+
+  const userIds = [...new Set(observations.map(observation => observation.userId))]
+  const earliest = Math.min(...observations.map(observation => observation.observedAt.getTime()))
+
+  const recent = await prisma.dndInterval.findMany({
+    where: {
+      userId: { in: userIds },
+      endedAt: { gte: new Date(earliest - PRESENCE_INTERVAL_MAX_GAP_MS) }
+    },
+    orderBy: { endedAt: 'desc' }
+  })
+
+  const currentByUser = new Map<string, PendingInterval>()
+  recent.forEach(interval => {
+    if (!currentByUser.has(interval.userId)) {
+      currentByUser.set(interval.userId, { ...interval, changed: false })
+    }
+  })
+
+  const updates: PendingInterval[] = []
+  const creates: PendingInterval[] = []
+
+  userIds.forEach(userId => {
+    const userObservations = observations
+      .filter(observation => observation.userId === userId)
+      .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime())
+
+    applyObservations(currentByUser.get(userId) || null, userObservations)
+      .filter(interval => interval.changed)
+      .forEach(interval => (interval.id ? updates : creates).push(interval))
+  })
+
+  await prisma.$transaction([
+    ...updates.map(interval => prisma.dndInterval.update({
+      where: { id: interval.id },
+      data: { endedAt: interval.endedAt }
+    })),
+    prisma.dndInterval.createMany({
+      data: creates.map(interval => ({
+        userId: interval.userId,
+        status: interval.status,
+        startedAt: interval.startedAt,
+        endedAt: interval.endedAt,
+        source: interval.source
+      })),
+      // A retried or overlapping run opening the same slot again
+      skipDuplicates: true
+    })
+  ])
+
+  return { extended: updates.length, opened: creates.length }
+}
+
+// Poll dnd.teamInfo for a set of users and record what it says right now. Samples
+// are stamped with the collection slot, like presence polls, so a retry or
+// overlapping run repeats them exactly.
+export async function collectDndStatus(
+  users: Array<{ id: string; slackUserId: string }>,
+  workspace: { token: string; slackTeamId?: string },
+  observedAt: Date = collectionSlot(),
+  source: DndSource = 'poll'
+) {
+  if (users.length === 0) return { extended: 0, opened: 0, inDnd: 0 }
+
+  const statuses = await getTeamDndInfo(users.map(user => user.slackUserId), workspace.token, workspace.slackTeamId)
+  const now = new Date()
+
+  const observations: DndObservation[] = users
+    .filter(user => statuses[user.slackUserId])
+    .map(user => ({
+      userId: user.id,
+      status: dndStatusAt(statuses[user.slackUserId], now),
+      observedAt,
+      source
+    }))
+
+  const result = await recordDndObservations(observations)
+  return { ...result, inDnd: observations.filter(observation => observation.status !== 'off').length }
+}
+
+// DND spans (status other than "off") overlapping [start, end], grouped by user id
+export async function getDndSpansByUser(userIds: string[], start: Date, end: Date) {
+  const spans = await prisma.dndInterval.findMany({
+    where: {
+      userId: { in: userIds },
+      status: { not: 'off' },
+      startedAt: { lte: end },
+      endedAt: { gte: start }
+    },
+    select: {
+      userId: true,
+      status: true,
+      startedAt: true,
+      endedAt: true
+    },
+    orderBy: { startedAt: 'asc' }
+  })
+
+  const spansByUser = new Map<string, PresenceIntervalSpan[]>()
+  spans.forEach(span => {
+    if (!spansByUser.has(span.userId)) {
+      spansByUser.set(span.userId, [])
+    }
+    spansByUser.get(span.userId)!.push(span)
+  })
+
+  return spansByUser
+}
+
+function overlapMs(a: PresenceIntervalSpan, b: PresenceIntervalSpan, start: Date, end: Date) {
+  const from = Math.max(a.startedAt.getTime(), b.startedAt.getTime(), start.getTime())
+  const to = Math.min(a.endedAt.getTime(), b.endedAt.getTime(), end.getTime())
+  return Math.max(0, to - from)
+}
+
+// Minutes within [start, end) spent in DND
+export function dndMinutes(dndSpans: PresenceIntervalSpan[], start: Date, end: Date) {
+  const window: PresenceIntervalSpan = { userId: '', status: 'window', startedAt: start, endedAt: end }
+  const ms = dndSpans.reduce((sum, span) => sum + overlapMs(span, window, start, end), 0)
+  return Math.round(ms / (60 * 1000))
+}
+
+// Focus time: active minutes with DND on. Scheduled overnight DND doesn't count
+// because nobody is active then.
+export function focusMinutes(intervals: PresenceIntervalSpan[], dndSpans: PresenceIntervalSpan[], start: Date, end: Date) {
+  let ms = 0
+  for (const interval of intervals) {
+    if (interval.status !== 'active') continue
+    for (const span of dndSpans) {
+      ms += overlapMs(interval, span, start, end)
+    }
+  }
+  return Math.round(ms / (60 * 1000))
+}
@@ -0,0 +1,136 @@
+import type { Installation, InstallationQuery, InstallationStore } from '@slack/oauth'
+import type { Installation as InstallationRow } from '@prisma/client'
+import { prisma } from './db'
+import { getOrgWorkspaces } from './slack'
+import { sealOptionalToken } from './token-crypto'
+
+// @slack/oauth InstallationStore backed by the installations table. Workspace
+// installs are keyed by team id; org-wide installs by enterprise id, with the
+// workspaces they cover listed so the collectors can poll them. Tokens are stored
+// sealed and fetchInstallation hands them back sealed, ready for slackApi.
+
+function findOrgInstallation(enterpriseId: string) {
+  return prisma.installation.findFirst({
+    where: { enterpriseId, isEnterpriseInstall: true }
+  })
+}
+
+function joinScopes(scopes: string[] | undefined) {
+  return scopes && scopes.length > 0 ? scopes.join(',') : null
+}
+
+function splitScopes(scopes: string | null) {
+  return scopes ? scopes.split(',') : []
+}
+
+function toInstallation(row: InstallationRow, query: InstallationQuery<boolean>): Installation {
+  // Only hand out the installer's user token to a query about that user
+  const includeUser = !query.userId || query.userId === row.installerSlackUserId
+
+  return {
+    team: row.isEnterpriseInstall || !row.slackTeamId ? undefined : { id: row.slackTeamId, name: row.teamName ?? undefined },
+    enterprise: row.enterpriseId ? { id: row.enterpriseId, name: row.enterpriseName ?? undefined } : undefined,
+    user: {
+      id: includeUser ? row.installerSlackUserId ?? '' : query.userId!,
+      token: includeUser ? row.userToken ?? undefined : undefined,
+      scopes: includeUser ? splitScopes(row.userScopes) : undefined
+    },
+    bot: row.botToken ? {
+      token: row.botToken,
+      scopes: splitScopes(row.scopes),
+      id: row.botId ?? '',
+      userId: row.botUserId ?? ''
+    } : undefined,
+    appId: row.appId ?? undefined,
+    isEnterpriseInstall: row.isEnterpriseInstall,
+    authVersion: 'v2'
+  }
+}
+
+export const prismaInstallationStore = {
+  async storeInstallation(installation: Installation) {
+    const data = {
+      teamName: installation.team?.name ?? null,
+      enterpriseId: installation.enterprise?.id ?? null,
+      enterpriseName: installation.enterprise?.name ?? null,
+      isEnterpriseInstall: !!installation.isEnterpriseInstall,
+      appId: installation.appId ?? null,
+      botToken: sealOptionalToken(installation.bot?.token) ?? null,
+      botId: installation.bot?.id ?? null,
+      botUserId: installation.bot?.userId ?? null,
+      scopes: joinScopes(installation.bot?.scopes),
+      userToken: sealOptionalToken(installation.user.token) ?? null,
+      userScopes: joinScopes(installation.user.scopes),
+      installerSlackUserId: installation.user.id
+    }
+
+    if (installation.isEnterpriseInstall && installation.enterprise) {
+      // Collectors need to know which workspaces an org-wide token can poll
+      const token = data.botToken || data.userToken
+      const workspaceIds = token ? (await getOrgWorkspaces(token)).map(team => team.id) : []
+
+      const existing = await findOrgInstallation(installation.enterprise.id)
+      if (existing) {
+        await prisma.installation.update({ where: { id: existing.id }, data: { ...data, workspaceIds } })
+      } else {
+        await prisma.installation.create({ data: { ...data, workspaceIds } })
+      }
+      console.log(`🏢 Stored org-wide installation for ${installation.enterprise.name || installation.enterprise.id} (${workspaceIds.length} workspaces)`)
+      return
+    }
+
+    if (!installation.team) {
+      throw new Error('Workspace installation is missing its team')
+    }
+
+    await prisma.installation.upsert({
+      where: { slackTeamId: installation.team.id },
+      create: { ...data, slackTeamId: installation.team.id },
+      update: data
+    })
+    console.log(`🏢 Stored installation for ${installation.team.name || installation.team.id}`)
+  },
+
+  async fetchInstallation(query: InstallationQuery<boolean>) {
+    let row: InstallationRow | null = null
+
+    if (query.isEnterpriseInstall) {
+      row = query.enterpriseId ? await findOrgInstallation(query.enterpriseId) : null
+    } else {
+      row = query.teamId ? await prisma.installation.findUnique({ where: { slackTeamId: query.teamId } }) : null
+      // A workspace in an org without its own install is covered by the org-wide one
+      if (!row && query.enterpriseId) {
+        row = await findOrgInstallation(query.enterpriseId)
+      }
+    }
+
+    if (!row) {
+      throw new Error(`No installation for ${query.isEnterpriseInstall ? `enterprise ${query.enterpriseId}` : `team ${query.teamId}`}`)
+    }
+    return toInstallation(row, query)
+  },
+
+  // With a userId only that user's token goes (they revoked it); otherwise the
+  // whole installation does (the app was uninstalled)
+  async deleteInstallation(query: InstallationQuery<boolean>) {
+    const where = query.isEnterpriseInstall
+      ? { enterpriseId: query.enterpriseId, isEnterpriseInstall: true }
+      : { slackTeamId: query.teamId }
+
+    if (!where.enterpriseId && !where.slackTeamId) return
+
+    if (query.userId) {
+      const { count } = await prisma.installation.updateMany({
+        where: { ...where, installerSlackUserId: query.userId },
+        data: { userToken: null, userScopes: null }
+      })
+      if (count > 0) {
+        console.log(`🔒 Removed user token of ${query.userId} from installation ${query.teamId || query.enterpriseId}`)
+      }
+      return
+    }
+
+    const { count } = await prisma.installation.deleteMany({ where })
+    console.log(`🗑️ Deleted ${count} installation(s) for ${query.isEnterpriseInstall ? `enterprise ${query.enterpriseId}` : `team ${query.teamId}`}`)
+  }
+} satisfies InstallationStore
@@ -0,0 +1,323 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { userMetadata } from './slack-users'
+import { currentTokenKeyId, resealToken, sealOptionalToken, sealedTokenKeyId } from './token-crypto'
+
+// One installation per Slack workspace, or one org-wide installation covering
+// several. Collectors loop over the workspaces these cover and use each one's own
+// token for its users, so several workspaces can share a database.
+
+export type TokenType = 'bot' | 'user'
+
+// Where a token is stored, so a dead one can be cleared
+export type TokenSource =
+  | { kind: 'installation'; installationId: string; tokenType: TokenType }
+  | { kind: 'user'; userId: string }
+  | { kind: 'simulator' }
+
+export interface WorkspaceToken {
+  slackTeamId: string
+  teamName: string | null
+  // Sealed - hand it to slackApi as is
+  token: string
+  // 'simulated' for the simulator's workspace (see presence-simulator.ts), which has no real token
+  tokenType: TokenType | 'simulated'
+  source: TokenSource
+}
+
+export interface InstallationInput {
+  slackTeamId: string
+  teamName?: string | null
+  botToken?: string | null
+  botUserId?: string | null
+  userToken?: string | null
+  installerSlackUserId?: string | null
+  scopes?: string | null
+}
+
+export interface Workspace {
+  slackTeamId: string
+  name: string | null
+}
+
+// Record an install or re-install. Fields left undefined keep their stored value,
+// so signing in without a bot token doesn't wipe the one from the original install.
+// Tokens are sealed before they're stored.
+export async function saveInstallation(input: InstallationInput) {
+  const sealed: InstallationInput = {
+    ...input,
+    botToken: sealOptionalToken(input.botToken),
+    userToken: sealOptionalToken(input.userToken)
+  }
+  const data = Object.fromEntries(
+    Object.entries(sealed).filter(([, value]) => value !== undefined)
+  ) as InstallationInput
+
+  return prisma.installation.upsert({
+    where: { slackTeamId: input.slackTeamId },
+    create: data,
+    update: data
+  })
+}
+
+interface InstallationTokens {
+  id: string
+  slackTeamId: string | null
+  teamName: string | null
+  enterpriseName: string | null
+  isEnterpriseInstall: boolean
+  workspaceIds: string[]
+  botToken: string | null
+  userToken: string | null
+}
+
+function installationTeams(installation: InstallationTokens) {
+  return installation.isEnterpriseInstall
+    ? installation.workspaceIds.map(slackTeamId => ({ slackTeamId, teamName: installation.enterpriseName }))
+    : installation.slackTeamId ? [{ slackTeamId: installation.slackTeamId, teamName: installation.teamName }] : []
+}
+
+// The installation's bot token, then the installer's user token, for each
+// workspace it covers - an org-wide installation covers several
+export function installationTokens(installation: InstallationTokens): WorkspaceToken[] {
+  const tokens = ([['bot', installation.botToken], ['user', installation.userToken]] as const)
+    .filter((entry): entry is readonly [TokenType, string] => !!entry[1])
+
+  return installationTeams(installation).flatMap(team => tokens.map(([tokenType, token]) => ({
+    ...team,
+    token,
+    tokenType,
+    source: { kind: 'installation' as const, installationId: installation.id, tokenType }
+  })))
+}
+
+// Before installations existed, tokens lived on whichever users had signed in
+// (the bot token inside User.metadata). Turn those into installations, once.
+export async function importLegacyInstallations() {
+  const users = await prisma.user.findMany({
+    where: {
+      hasSlackToken: true,
+      slackTeamId: { not: null }
+    },
+    select: { slackUserId: true, slackTeamId: true, slackAccessToken: true, metadata: true },
+    orderBy: { updatedAt: 'desc' }
+  })
+
+  const byTeam = new Map<string, InstallationInput>()
+  for (const user of users) {
+    const metadata = userMetadata(user.metadata) as { botToken?: string; teamName?: string }
+
+    const existing = byTeam.get(user.slackTeamId!)
+    // Prefer the most recent user that has a bot token
+    if (existing && (existing.botToken || !metadata.botToken)) continue
+
+    byTeam.set(user.slackTeamId!, {
+      slackTeamId: user.slackTeamId!,
+      teamName: metadata.teamName || existing?.teamName || null,
+      botToken: metadata.botToken || null,
+      userToken: user.slackAccessToken,
+      installerSlackUserId: user.slackUserId
+    })
+  }
+
+  for (const installation of byTeam.values()) {
+    await saveInstallation(installation)
+    console.log(`🏢 Imported installation for team ${installation.slackTeamId} from user ${installation.installerSlackUserId}`)
+  }
+
+  // With a single workspace, users synced before team ids were recorded belong to it
+  if (byTeam.size === 1) {
+    const [slackTeamId] = byTeam.keys()
+    const { count } = await prisma.user.updateMany({
+      where: { slackTeamId: null },
+      data: { slackTeamId }
+    })
+    if (count > 0) {
+      console.log(`🏢 Assigned ${count} users without a team to ${slackTeamId}`)
+    }
+  }
+
+  return byTeam.size
+}
+
+// Workspace installs first, so their tokens win over an org-wide one covering the same workspace
+async function findInstallations() {
+  const findAll = () => prisma.installation.findMany({
+    orderBy: [{ isEnterpriseInstall: 'asc' }, { createdAt: 'asc' }]
+  })
+  const installations = await findAll()
+
+  if (installations.length === 0 && await importLegacyInstallations() > 0) {
+    return findAll()
+  }
+  return installations
+}
+
+// A token for every installed workspace, without checking that it still works
+// (see resolveWorkspaceToken for that). A workspace's own installation wins over
+// an org-wide one that also covers it.
+export async function getWorkspaceTokens(): Promise<WorkspaceToken[]> {
+  const installations = await findInstallations()
+  const byTeam = new Map<string, WorkspaceToken>()
+  installations.flatMap(installationTokens).forEach(workspace => {
+    if (!byTeam.has(workspace.slackTeamId)) byTeam.set(workspace.slackTeamId, workspace)
+  })
+  return [...byTeam.values()]
+}
+
+// Every workspace with an installation, including ones whose tokens have all
+// been revoked
+export async function getInstalledWorkspaces(): Promise<Workspace[]> {
+  const installations = await findInstallations()
+  const byTeam = new Map<string, Workspace>()
+  installations.flatMap(installationTeams).forEach(team => {
+    if (!byTeam.has(team.slackTeamId)) byTeam.set(team.slackTeamId, { slackTeamId: team.slackTeamId, name: team.teamName })
+  })
+  return [...byTeam.values()]
+}
+
+// Every stored token that can act in a workspace, best first: the workspace's
+// installation, an org-wide installation covering it, then the user tokens of
+// people in it who signed in
+export async function getWorkspaceTokenCandidates(slackTeamId: string): Promise<WorkspaceToken[]> {
+  const installations = await prisma.installation.findMany({
+    where: {
+      OR: [
+        { slackTeamId },
+        { isEnterpriseInstall: true, workspaceIds: { has: slackTeamId } }
+      ]
+    },
+    orderBy: { isEnterpriseInstall: 'asc' }
+  })
+  const fromInstallations = installations
+    .flatMap(installationTokens)
+    .filter(workspace => workspace.slackTeamId === slackTeamId)
+
+  const users = await prisma.user.findMany({
+    where: { slackTeamId, hasSlackToken: true, slackAccessToken: { not: null } },
+    select: { id: true, slackAccessToken: true },
+    orderBy: { updatedAt: 'desc' }
+  })
+  const teamName = fromInstallations[0]?.teamName ?? null
+  const fromUsers: WorkspaceToken[] = users.map(user => ({
+    slackTeamId,
+    teamName,
+    token: user.slackAccessToken!,
+    tokenType: 'user',
+    source: { kind: 'user', userId: user.id }
+  }))
+
+  return [...fromInstallations, ...fromUsers]
+}
+
+// Forget a token Slack no longer accepts
+export async function clearStoredToken(source: TokenSource) {
+  if (source.kind === 'simulator') return
+
+  if (source.kind === 'user') {
+    await prisma.user.update({
+      where: { id: source.userId },
+      data: { slackAccessToken: null, hasSlackToken: false }
+    })
+  } else {
+    await prisma.installation.update({
+      where: { id: source.installationId },
+      data: source.tokenType === 'bot' ? { botToken: null } : { userToken: null }
+    })
+  }
+}
+
+// Workspaces a signed-in person can look at: their own, plus any other installed
+// workspace where someone with the same email is a member
+export async function getWorkspacesForSlackUser(slackUserId: string): Promise<Workspace[]> {
+  const user = await prisma.user.findUnique({
+    where: { slackUserId },
+    select: { email: true, slackTeamId: true }
+  })
+  if (!user) return []
+
+  const memberships = user.email
+    ? await prisma.user.findMany({
+      where: { email: user.email, slackTeamId: { not: null } },
+      select: { slackTeamId: true }
+    })
+    : []
+
+  const teamIds = [...new Set([user.slackTeamId, ...memberships.map(member => member.slackTeamId)])]
+    .filter((teamId): teamId is string => !!teamId)
+
+  const installations = await prisma.installation.findMany({
+    where: {
+      OR: [
+        { slackTeamId: { in: teamIds } },
+        { isEnterpriseInstall: true, workspaceIds: { hasSome: teamIds } }
+      ]
+    },
+    orderBy: { isEnterpriseInstall: 'desc' }
+  })
+  // Workspace installs come last so their own names win
+  const names = new Map<string, string | null>()
+  installations.flatMap(installationTokens).forEach(workspace => names.set(workspace.slackTeamId, workspace.teamName))
+
+  return teamIds.map(slackTeamId => ({ slackTeamId, name: names.get(slackTeamId) ?? null }))
+}
+
+export interface ResealResult {
+  users: number
+  installations: number
+  botTokensMoved: number
+}
+
+// Re-seal every stored token under the current TOKEN_ENCRYPTION_KEY (sealing any
+// still stored in plaintext), and move bot tokens out of User.metadata, where
+// sign-in used to keep them, into installations
+export async function resealStoredTokens(): Promise<ResealResult> {
+  const result: ResealResult = { users: 0, installations: 0, botTokensMoved: 0 }
+  const keyId = currentTokenKeyId()
+  const needsReseal = (value: string | null) => !!value && sealedTokenKeyId(value) !== keyId
+
+  const legacyBotTokenUsers = (await prisma.user.findMany({
+    where: { metadata: { not: Prisma.DbNull } },
+    select: { id: true, metadata: true }
+  })).filter(user => 'botToken' in userMetadata(user.metadata))
+
+  if (legacyBotTokenUsers.length > 0 && await prisma.installation.count() === 0) {
+    await importLegacyInstallations()
+  }
+  for (const user of legacyBotTokenUsers) {
+    const metadata = userMetadata(user.metadata)
+    delete metadata.botToken
+    await prisma.user.update({ where: { id: user.id }, data: { metadata } })
+    result.botTokensMoved++
+  }
+
+  const users = await prisma.user.findMany({
+    where: { slackAccessToken: { not: null } },
+    select: { id: true, slackAccessToken: true }
+  })
+  for (const user of users) {
+    if (!needsReseal(user.slackAccessToken)) continue
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { slackAccessToken: resealToken(user.slackAccessToken!), hasSlackToken: true }
+    })
+    result.users++
+  }
+
+  const installations = await prisma.installation.findMany({
+    select: { id: true, botToken: true, userToken: true }
+  })
+  for (const installation of installations) {
+    if (!needsReseal(installation.botToken) && !needsReseal(installation.userToken)) continue
+    await prisma.installation.update({
+      where: { id: installation.id },
+      data: {
+        botToken: installation.botToken && resealToken(installation.botToken),
+        userToken: installation.userToken && resealToken(installation.userToken)
+      }
+    })
+    result.installations++
+  }
+
+  return result
+}
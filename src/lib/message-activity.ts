@@ -0,0 +1,93 @@
+import { prisma } from './db'
+import type { SlackHistoryMessage } from './slack'
+
+// Subtypes that still represent a person posting something. Everything else
+// (joins, topic changes, edits, deletions, bot messages) is not activity.
+const COUNTED_SUBTYPES = new Set(['thread_broadcast', 'file_share', 'me_message'])
+
+export interface MessageActivityRecord {
+  slackUserId: string
+  channelId: string
+  messageTs: string
+}
+
+export function isCountedMessage(message: { subtype?: string; user?: string }): boolean {
+  if (!message.user) return false
+  return !message.subtype || COUNTED_SUBTYPES.has(message.subtype)
+}
+
+// Slack message timestamps are "<unix seconds>.<sequence>"
+export function slackTsToDate(ts: string): Date {
+  return new Date(Math.floor(parseFloat(ts) * 1000))
+}
+
+// Store who posted when and where. Messages from people we don't track are dropped,
+// and messages we've already seen (via the other ingestion path) are skipped.
+export async function recordMessageActivity(
+  records: MessageActivityRecord[],
+  slackTeamId: string | null,
+  source: 'event' | 'history'
+): Promise<number> {
+  if (records.length === 0) return 0
+
+  const slackUserIds = [...new Set(records.map(record => record.slackUserId))]
+  const users = await prisma.user.findMany({
+    where: { slackUserId: { in: slackUserIds } },
+    select: { id: true, slackUserId: true }
+  })
+  const userIdBySlackId = new Map(users.map(user => [user.slackUserId, user.id]))
+
+  const data = records
+    .filter(record => userIdBySlackId.has(record.slackUserId))
+    .map(record => ({
+      userId: userIdBySlackId.get(record.slackUserId)!,
+      channelId: record.channelId,
+      slackTeamId,
+      messageTs: record.messageTs,
+      postedAt: slackTsToDate(record.messageTs),
+      source
+    }))
+
+  if (data.length === 0) return 0
+
+  const result = await prisma.messageActivity.createMany({
+    data,
+    skipDuplicates: true
+  })
+  return result.count
+}
+
+export function toActivityRecords(channelId: string, messages: SlackHistoryMessage[]): MessageActivityRecord[] {
+  return messages
+    .filter(isCountedMessage)
+    .map(message => ({
+      slackUserId: message.user!,
+      channelId,
+      messageTs: message.ts
+    }))
+}
+
+// Message timestamps for a set of users, grouped by user id
+export async function getMessageTimesByUser(userIds: string[], start: Date, end: Date) {
+  const activity = await prisma.messageActivity.findMany({
+    where: {
+      userId: { in: userIds },
+      postedAt: { gte: start, lte: end }
+    },
+    select: {
+      userId: true,
+      postedAt: true
+    },
+    orderBy: { postedAt: 'asc' }
+  })
+
+  const messagesByUser = new Map<string, Date[]>()
+  activity.forEach(message => {
+    if (!messagesByUser.has(message.userId)) {
+      messagesByUser.set(message.userId, [])
+    }
+    messagesByUser.get(message.userId)!.push(message.postedAt)
+  })
+
+  return messagesByUser
+}
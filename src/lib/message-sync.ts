@@ -0,0 +1,281 @@
+import { prisma } from './db'
+import { getConversationHistoryPage, getConversationsPage, type SlackConversation } from './slack'
+import { recordMessageActivity, slackTsToDate, toActivityRecords } from './message-activity'
+
+const DEFAULT_BACKFILL_DAYS = parseInt(process.env.MESSAGE_SYNC_DAYS || '30')
+
+// Stay under the serverless function limit; a rerun picks up from the saved cursors
+const DEFAULT_TIME_BUDGET_MS = 50 * 1000
+
+// Far longer than any run can last, so an 'in_progress' channel this old was left
+// behind by a run that was killed before it could put the channel back
+const STALE_SYNC_MS = 10 * 60 * 1000
+
+type Channel = NonNullable<Awaited<ReturnType<typeof prisma.channel.findUnique>>>
+
+export interface ChannelSyncResult {
+  channelId: string
+  name: string | null
+  status: 'complete' | 'in_progress' | 'error'
+  pages: number
+  recorded: number
+  error?: string
+}
+
+export interface MessageSyncResult {
+  channels: number
+  completed: number
+  // Started but stopped at the deadline; the next run resumes them from their checkpoint
+  inProgress: number
+  // Not reached before the deadline
+  notVisited: number
+  errors: number
+  recorded: number
+  timedOut: boolean
+  results: ChannelSyncResult[]
+}
+
+function dateToSlackTs(date: Date): string {
+  return (date.getTime() / 1000).toFixed(6)
+}
+
+function olderTs(a: string | null, b: string | null): string | null {
+  if (!a) return b
+  if (!b) return a
+  return parseFloat(a) <= parseFloat(b) ? a : b
+}
+
+function newerTs(a: string | null, b: string | null): string | null {
+  if (!a) return b
+  if (!b) return a
+  return parseFloat(a) >= parseFloat(b) ? a : b
+}
+
+// Every conversation the token's owner can read: channels they're in, DMs and group DMs
+export async function listMemberConversations(accessToken: string, slackTeamId?: string): Promise<SlackConversation[]> {
+  const conversations: SlackConversation[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await getConversationsPage(accessToken, { cursor, slackTeamId })
+    conversations.push(...page.channels.filter(channel =>
+      channel.is_member || channel.is_im || channel.is_mpim
+    ))
+    cursor = page.nextCursor || undefined
+  } while (cursor)
+
+  return conversations
+}
+
+async function upsertChannel(conversation: SlackConversation, slackTeamId: string) {
+  const name = conversation.name || (conversation.is_im ? `dm-${conversation.user || conversation.id}` : null)
+
+  return prisma.channel.upsert({
+    where: { id: conversation.id },
+    create: {
+      id: conversation.id,
+      slackTeamId,
+      name,
+      isPrivate: !!(conversation.is_private || conversation.is_im || conversation.is_mpim),
+      isArchived: !!conversation.is_archived
+    },
+    update: {
+      name,
+      isArchived: !!conversation.is_archived
+    }
+  })
+}
+
+// Where a channel rests between runs: a backfill that isn't finished is pending
+// (its cursor is kept, so it resumes), anything else just waits for newer messages
+function restingStatus(channel: { backfillComplete: boolean }) {
+  return channel.backfillComplete ? 'complete' : 'pending'
+}
+
+// Put back channels that a killed run left marked 'in_progress'
+async function resetStaleChannels(slackTeamId: string) {
+  const stale = {
+    slackTeamId,
+    syncStatus: 'in_progress',
+    updatedAt: { lt: new Date(Date.now() - STALE_SYNC_MS) }
+  }
+  const [backfills, incremental] = await Promise.all([
+    prisma.channel.updateMany({ where: { ...stale, backfillComplete: false }, data: { syncStatus: 'pending' } }),
+    prisma.channel.updateMany({ where: { ...stale, backfillComplete: true }, data: { syncStatus: 'complete' } })
+  ])
+  const count = backfills.count + incremental.count
+  if (count > 0) {
+    console.log(`🔄 Reset ${count} channels left in progress by an interrupted sync`)
+  }
+}
+
+// Backfill walks from the newest message back to backfillFromTs, saving the cursor after
+// every page. Once that's done, later runs only fetch what's newer than newestSyncedTs.
+export async function syncChannelHistory(
+  channel: Channel,
+  accessToken: string,
+  deadline: number
+): Promise<ChannelSyncResult> {
+  const result: ChannelSyncResult = {
+    channelId: channel.id,
+    name: channel.name,
+    status: 'in_progress',
+    pages: 0,
+    recorded: 0
+  }
+
+  let cursor = channel.backfillComplete ? undefined : channel.syncCursor || undefined
+  let oldestSyncedTs = channel.oldestSyncedTs
+  let newestSyncedTs = channel.newestSyncedTs
+  const backfillFromTs = channel.backfillFromTs ||
+    dateToSlackTs(new Date(Date.now() - DEFAULT_BACKFILL_DAYS * 24 * 60 * 60 * 1000))
+  const oldest = channel.backfillComplete ? (channel.newestSyncedTs || backfillFromTs) : backfillFromTs
+
+  await prisma.channel.update({
+    where: { id: channel.id },
+    data: { syncStatus: 'in_progress', backfillFromTs, lastSyncError: null }
+  })
+
+  try {
+    do {
+      if (Date.now() > deadline) {
+        await prisma.channel.update({
+          where: { id: channel.id },
+          data: { syncStatus: restingStatus(channel) }
+        })
+        return result
+      }
+
+      const page = await getConversationHistoryPage(channel.id, accessToken, { cursor, oldest, slackTeamId: channel.slackTeamId })
+      const recorded = await recordMessageActivity(toActivityRecords(channel.id, page.messages), channel.slackTeamId, 'history')
+
+      // Pages come newest first
+      const pageNewest = page.messages[0]?.ts || null
+      const pageOldest = page.messages[page.messages.length - 1]?.ts || null
+      newestSyncedTs = newerTs(newestSyncedTs, pageNewest)
+      if (!channel.backfillComplete) {
+        oldestSyncedTs = olderTs(oldestSyncedTs, pageOldest)
+      }
+
+      cursor = page.nextCursor || undefined
+      result.pages++
+      result.recorded += recorded
+
+      // Incremental runs are cheap to redo, so only the backfill keeps its cursor
+      await prisma.channel.update({
+        where: { id: channel.id },
+        data: {
+          syncCursor: channel.backfillComplete ? null : cursor || null,
+          oldestSyncedTs,
+          newestSyncedTs: channel.backfillComplete ? undefined : newestSyncedTs,
+          messagesSynced: { increment: recorded },
+          lastSyncedAt: new Date()
+        }
+      })
+    } while (cursor)
+
+    await prisma.channel.update({
+      where: { id: channel.id },
+      data: {
+        syncStatus: 'complete',
+        backfillComplete: true,
+        syncCursor: null,
+        // A finished backfill covers the whole window, even if the channel was quiet
+        oldestSyncedTs: channel.backfillComplete ? undefined : olderTs(oldestSyncedTs, backfillFromTs),
+        newestSyncedTs,
+        lastSyncedAt: new Date()
+      }
+    })
+
+    result.status = 'complete'
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`❌ Message sync failed for channel ${channel.name || channel.id}: ${errorMessage}`)
+
+    await prisma.channel.update({
+      where: { id: channel.id },
+      data: { syncStatus: 'error', lastSyncError: errorMessage }
+    })
+
+    result.status = 'error'
+    result.error = errorMessage
+    return result
+  }
+}
+
+// Sync message metadata for every conversation a token can see. Safe to rerun:
+// checkpoints live on the channels table and message rows are de-duplicated.
+export async function syncMessages(
+  accessToken: string,
+  slackTeamId: string,
+  options: { timeBudgetMs?: number } = {}
+): Promise<MessageSyncResult> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+
+  // Before the upserts below, which touch every channel's updatedAt
+  await resetStaleChannels(slackTeamId)
+
+  const conversations = await listMemberConversations(accessToken, slackTeamId)
+  for (const conversation of conversations) {
+    await upsertChannel(conversation, slackTeamId)
+  }
+
+  // Least recently synced first, so reruns share time fairly between channels
+  const channels = await prisma.channel.findMany({
+    where: { id: { in: conversations.map(conversation => conversation.id) } },
+    orderBy: [{ backfillComplete: 'asc' }, { lastSyncedAt: { sort: 'asc', nulls: 'first' } }]
+  })
+
+  const results: ChannelSyncResult[] = []
+  let timedOut = false
+
+  for (const channel of channels) {
+    if (Date.now() > deadline) {
+      timedOut = true
+      break
+    }
+
+    const result = await syncChannelHistory(channel, accessToken, deadline)
+    results.push(result)
+
+    if (result.status === 'in_progress') {
+      timedOut = true
+      break
+    }
+  }
+
+  return {
+    channels: channels.length,
+    completed: results.filter(r => r.status === 'complete').length,
+    inProgress: results.filter(r => r.status === 'in_progress').length,
+    notVisited: channels.length - results.length,
+    errors: results.filter(r => r.status === 'error').length,
+    recorded: results.reduce((sum, r) => sum + r.recorded, 0),
+    timedOut,
+    results
+  }
+}
+
+// How far back each channel has been synced
+export async function getMessageSyncStatus(slackTeamId?: string) {
+  const channels = await prisma.channel.findMany({
+    where: slackTeamId ? { slackTeamId } : undefined,
+    orderBy: { name: 'asc' }
+  })
+
+  return channels.map(channel => ({
+    channelId: channel.id,
+    name: channel.name,
+    slackTeamId: channel.slackTeamId,
+    isPrivate: channel.isPrivate,
+    syncStatus: channel.syncStatus,
+    backfillComplete: channel.backfillComplete,
+    syncedFrom: channel.oldestSyncedTs ? slackTsToDate(channel.oldestSyncedTs).toISOString() : null,
+    syncedTo: channel.newestSyncedTs ? slackTsToDate(channel.newestSyncedTs).toISOString() : null,
+    backfillTarget: channel.backfillFromTs ? slackTsToDate(channel.backfillFromTs).toISOString() : null,
+    messagesSynced: channel.messagesSynced,
+    lastSyncedAt: channel.lastSyncedAt?.toISOString() || null,
+    lastSyncError: channel.lastSyncError
+  }))
+}
@@ -0,0 +1,165 @@
+import { prisma } from './db'
+
+// 15-minute aggregates of raw presence_logs. The retention job writes these
+// before pruning old logs, so summaries can still be rebuilt afterwards. The
+// backfill can also write them ahead of time from logs that are still stored.
+
+export const BUCKET_MINUTES = 15
+
+const BUCKET_MS = BUCKET_MINUTES * 60 * 1000
+
+export interface PresenceBucketSpan {
+  bucketStart: Date
+  sampleCount: number
+  activeCount: number
+  firstActiveAt: Date | null
+  lastActiveAt: Date | null
+}
+
+// Buckets are aligned to UTC quarter hours, which are quarter hours in every timezone too
+export function bucketStartFor(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / BUCKET_MS) * BUCKET_MS)
+}
+
+// Active minutes a bucket stands for: the share of its samples that were active
+export function bucketActiveMinutes(bucket: PresenceBucketSpan): number {
+  if (bucket.sampleCount === 0) return 0
+  return (bucket.activeCount / bucket.sampleCount) * BUCKET_MINUTES
+}
+
+// Fold logs (any order) into per-bucket aggregates, keyed by bucket start time
+export function aggregateLogs(logs: Array<{ status: string; timestamp: Date }>) {
+  const buckets = new Map<number, PresenceBucketSpan>()
+
+  for (const log of logs) {
+    const bucketStart = bucketStartFor(log.timestamp)
+    let bucket = buckets.get(bucketStart.getTime())
+    if (!bucket) {
+      bucket = { bucketStart, sampleCount: 0, activeCount: 0, firstActiveAt: null, lastActiveAt: null }
+      buckets.set(bucketStart.getTime(), bucket)
+    }
+
+    bucket.sampleCount++
+    if (log.status === 'active') {
+      bucket.activeCount++
+      if (!bucket.firstActiveAt || log.timestamp < bucket.firstActiveAt) bucket.firstActiveAt = log.timestamp
+      if (!bucket.lastActiveAt || log.timestamp > bucket.lastActiveAt) bucket.lastActiveAt = log.timestamp
+    }
+  }
+
+  return [...buckets.values()]
+}
+
+// A user's buckets that start within [start, end)
+export async function getPresenceBuckets(userId: string, start: Date, end: Date): Promise<PresenceBucketSpan[]> {
+  return prisma.presenceBucket.findMany({
+    where: {
+      userId,
+      bucketStart: { gte: start, lt: end }
+    },
+    select: {
+      bucketStart: true,
+      sampleCount: true,
+      activeCount: true,
+      firstActiveAt: true,
+      lastActiveAt: true
+    },
+    orderBy: { bucketStart: 'asc' }
+  })
+}
+
+// Add a later batch of samples onto a bucket that already holds earlier ones
+export function mergeBuckets(existing: PresenceBucketSpan, added: PresenceBucketSpan): PresenceBucketSpan {
+  const earliest = [existing.firstActiveAt, added.firstActiveAt].filter((date): date is Date => !!date)
+  const latest = [existing.lastActiveAt, added.lastActiveAt].filter((date): date is Date => !!date)
+
+  return {
+    bucketStart: existing.bucketStart,
+    sampleCount: existing.sampleCount + added.sampleCount,
+    activeCount: existing.activeCount + added.activeCount,
+    firstActiveAt: earliest.length > 0 ? new Date(Math.min(...earliest.map(date => date.getTime()))) : null,
+    lastActiveAt: latest.length > 0 ? new Date(Math.max(...latest.map(date => date.getTime()))) : null
+  }
+}
+
+export interface BucketRebuildResult {
+  users: number
+  logsRead: number
+  bucketsWritten: number
+  // Already rolled up by retention, so some of their logs are gone
+  bucketsKept: number
+}
+
+// Roll the raw presence_logs still stored in [from, to) into buckets, after a
+// bucketing change. The logs stay; retention deletes them later and leaves these
+// buckets as they are. Buckets retention wrote hold samples whose logs are gone,
+// so they're kept rather than rebuilt from what's left.
+export async function rebuildPresenceBuckets(options: {
+  userIds: string[]
+  from: Date
+  to: Date
+  batchSize?: number
+  dryRun?: boolean
+}): Promise<BucketRebuildResult> {
+  const batchSize = options.batchSize ?? 5000
+  // Whole buckets only, so none is rebuilt from part of its logs
+  const from = bucketStartFor(options.from)
+  const to = new Date(bucketStartFor(new Date(options.to.getTime() - 1)).getTime() + BUCKET_MS)
+  const result: BucketRebuildResult = { users: 0, logsRead: 0, bucketsWritten: 0, bucketsKept: 0 }
+
+  for (const userId of options.userIds) {
+    const byStart = new Map<number, PresenceBucketSpan>()
+    let cursor: string | undefined
+    while (true) {
+      const logs = await prisma.presenceLog.findMany({
+        where: { userId, timestamp: { gte: from, lt: to } },
+        select: { id: true, status: true, timestamp: true },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      })
+      if (logs.length === 0) break
+
+      for (const bucket of aggregateLogs(logs)) {
+        const current = byStart.get(bucket.bucketStart.getTime())
+        byStart.set(bucket.bucketStart.getTime(), current ? mergeBuckets(current, bucket) : bucket)
+      }
+      result.logsRead += logs.length
+
+      if (logs.length < batchSize) break
+      cursor = logs[logs.length - 1].id
+    }
+    if (byStart.size === 0) continue
+
+    const existing = await prisma.presenceBucket.findMany({
+      where: { userId, bucketStart: { gte: from, lt: to } }
+    })
+    const existingByStart = new Map(existing.map(bucket => [bucket.bucketStart.getTime(), bucket]))
+
+    const writes = [...byStart.values()].filter(bucket => {
+      const current = existingByStart.get(bucket.bucketStart.getTime())
+      if (current?.source === 'retention') {
+        result.bucketsKept++
+        return false
+      }
+      return !current ||
+        current.sampleCount !== bucket.sampleCount ||
+        current.activeCount !== bucket.activeCount ||
+        current.firstActiveAt?.getTime() !== bucket.firstActiveAt?.getTime() ||
+        current.lastActiveAt?.getTime() !== bucket.lastActiveAt?.getTime()
+    })
+
+    if (!options.dryRun && writes.length > 0) {
+      await prisma.$transaction(writes.map(bucket => prisma.presenceBucket.upsert({
+        where: { userId_bucketStart: { userId, bucketStart: bucket.bucketStart } },
+        create: { userId, ...bucket, source: 'backfill' },
+        update: { ...bucket, source: 'backfill' }
+      })))
+    }
+    result.bucketsWritten += writes.length
+    result.users++
+    console.log(`🪣 ${options.dryRun ? 'Checked' : 'Rebuilt'} presence buckets for user ${userId} (${result.logsRead} logs, ${result.bucketsWritten} buckets ${options.dryRun ? 'to write' : 'written'} so far)`)
+  }
+
+  return result
+}
@@ -0,0 +1,441 @@
+import { prisma } from './db'
+import type { SlackPresence } from './slack'
+
+// Presence is stored as intervals: one row per stretch of unchanged status rather
+// than one row per poll. Readers turn intervals back into minutes per block.
+
+// An interval is only extended if its last confirmation is this recent. Anything
+// older is a collection gap and the next observation opens a fresh interval.
+export const PRESENCE_INTERVAL_MAX_GAP_MS = 10 * 60 * 1000
+
+// Polls are stamped with the start of their collection slot rather than the time
+// the call returned, so a retried, overlapping or manually triggered run lands on
+// the same instant as the run it repeats. Matches the */2 collect-presence cron.
+export const PRESENCE_POLL_SLOT_MS = 2 * 60 * 1000
+
+export function collectionSlot(at: Date = new Date()): Date {
+  return new Date(Math.floor(at.getTime() / PRESENCE_POLL_SLOT_MS) * PRESENCE_POLL_SLOT_MS)
+}
+
+export type PresenceObservationSource = 'poll' | 'presence_sub' | 'compaction'
+
+// What an interval's status means:
+// - active: using Slack
+// - idle: connected, but Slack marked them away after inactivity (auto_away)
+// - manual_away: they set themselves away
+// - disconnected: no Slack client connected at all (connection_count 0)
+// - away: away for a reason we couldn't see - presence_change events, and polls
+//   for anyone but the token's own user, only say active or away
+// - offline: we couldn't ask Slack about them
+export type PresenceState = 'active' | 'idle' | 'manual_away' | 'disconnected' | 'away' | 'offline'
+
+export function classifyPresence(presence: SlackPresence): PresenceState {
+  if (presence.manual_away) return 'manual_away'
+  if (presence.connection_count === 0 || presence.online === false) return 'disconnected'
+  if (presence.presence === 'active') return 'active'
+  if (presence.auto_away) return 'idle'
+  return 'away'
+}
+
+export interface PresenceObservation {
+  userId: string
+  status: PresenceState
+  observedAt: Date
+  source: PresenceObservationSource
+}
+
+export interface PresenceIntervalSpan {
+  userId: string
+  status: string
+  startedAt: Date
+  endedAt: Date
+}
+
+// Any status stream stored as intervals - presence here, DND in ./dnd
+export interface IntervalObservation {
+  userId: string
+  status: string
+  observedAt: Date
+  source: string
+}
+
+export interface PendingInterval {
+  id?: string
+  userId: string
+  status: string
+  startedAt: Date
+  endedAt: Date
+  source: string
+  changed: boolean
+}
+
+// Fold a user's observations (oldest first) onto their current interval
+export function applyObservations(current: PendingInterval | null, observations: IntervalObservation[]) {
+  const intervals: PendingInterval[] = current ? [current] : []
+  let latest = current
+
+  for (const observation of observations) {
+    // Already covered - a second observation of the same slot changes nothing
+    if (latest && observation.observedAt <= latest.endedAt) continue
+
+    const withinGap = latest && observation.observedAt.getTime() - latest.endedAt.getTime() <= PRESENCE_INTERVAL_MAX_GAP_MS
+
+    if (latest && withinGap) {
+      // Either way the previous status held right up to this observation
+      latest.endedAt = observation.observedAt
+      latest.changed = true
+      if (latest.status === observation.status) continue
+    }
+
+    latest = {
+      userId: observation.userId,
+      status: observation.status,
+      startedAt: observation.observedAt,
+      endedAt: observation.observedAt,
+      source: observation.source,
+      changed: true
+    }
+    intervals.push(latest)
+  }
+
+  return intervals
+}
+
+// Record presence observations, extending each user's current interval while the
+// status is unchanged and opening a new one when it changes.
+export async function recordPresenceObservations(observations: PresenceObservation[]) {
+  if (observations.length === 0) return { extended: 0, opened: 0 }
+
+  const userIds = [...new Set(observations.map(observation => observation.userId))]
+  const earliest = Math.min(...observations.map(observation => observation.observedAt.getTime()))
+
+  // Only intervals confirmed recently enough can still be extended
+  const recent = await prisma.presenceInterval.findMany({
+    where: {
+      userId: { in: userIds },
+      endedAt: { gte: new Date(earliest - PRESENCE_INTERVAL_MAX_GAP_MS) }
+    },
+    orderBy: { endedAt: 'desc' }
+  })
+
+  const currentByUser = new Map<string, PendingInterval>()
+  recent.forEach(interval => {
+    if (!currentByUser.has(interval.userId)) {
+      currentByUser.set(interval.userId, { ...interval, changed: false })
+    }
+  })
+
+  const observationsByUser = new Map<string, PresenceObservation[]>()
+  observations.forEach(observation => {
+    if (!observationsByUser.has(observation.userId)) {
+      observationsByUser.set(observation.userId, [])
+    }
+    observationsByUser.get(observation.userId)!.push(observation)
+  })
+
+  const updates: PendingInterval[] = []
+  const creates: PendingInterval[] = []
+
+  observationsByUser.forEach((userObservations, userId) => {
+    userObservations.sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime())
+    applyObservations(currentByUser.get(userId) || null, userObservations)
+      .filter(interval => interval.changed)
+      .forEach(interval => (interval.id ? updates : creates).push(interval))
+  })
+
+  await prisma.$transaction([
+    ...updates.map(interval => prisma.presenceInterval.update({
+      where: { id: interval.id },
+      data: { endedAt: interval.endedAt }
+    })),
+    // (userId, startedAt) is unique, so when two runs race to open the same
+    // slot's interval only the first one is kept
+    prisma.presenceInterval.createMany({
+      data: creates.map(interval => ({
+        userId: interval.userId,
+        status: interval.status,
+        startedAt: interval.startedAt,
+        endedAt: interval.endedAt,
+        source: interval.source
+      })),
+      skipDuplicates: true
+    })
+  ])
+
+  return { extended: updates.length, opened: creates.length }
+}
+
+// Intervals for a set of users that overlap [start, end], grouped by user id
+export async function getPresenceIntervalsByUser(userIds: string[], start: Date, end: Date) {
+  const intervals = await prisma.presenceInterval.findMany({
+    where: {
+      userId: { in: userIds },
+      startedAt: { lte: end },
+      endedAt: { gte: start }
+    },
+    select: {
+      userId: true,
+      status: true,
+      startedAt: true,
+      endedAt: true
+    },
+    orderBy: { startedAt: 'asc' }
+  })
+
+  const intervalsByUser = new Map<string, PresenceIntervalSpan[]>()
+  intervals.forEach(interval => {
+    if (!intervalsByUser.has(interval.userId)) {
+      intervalsByUser.set(interval.userId, [])
+    }
+    intervalsByUser.get(interval.userId)!.push(interval)
+  })
+
+  return intervalsByUser
+}
+
+// How much of [start, end) each status covers. An interval that was only seen
+// once still counts as observed, even though it has no length.
+export function summarizeIntervals(intervals: PresenceIntervalSpan[], start: Date, end: Date) {
+  const msByState = new Map<string, number>()
+  let lastStatus: string | null = null
+
+  for (const interval of intervals) {
+    if (interval.startedAt >= end || interval.endedAt < start) continue
+    lastStatus = interval.status
+
+    const overlapStart = Math.max(interval.startedAt.getTime(), start.getTime())
+    const overlapEnd = Math.min(interval.endedAt.getTime(), end.getTime())
+    msByState.set(interval.status, (msByState.get(interval.status) || 0) + Math.max(0, overlapEnd - overlapStart))
+  }
+
+  const stateMinutes: Partial<Record<PresenceState, number>> = {}
+  msByState.forEach((ms, status) => {
+    stateMinutes[status as PresenceState] = Math.round(ms / (60 * 1000))
+  })
+
+  return {
+    observed: lastStatus !== null,
+    lastStatus,
+    activeMinutes: stateMinutes.active || 0,
+    stateMinutes
+  }
+}
+
+export interface CompactionResult {
+  users: number
+  logsCompacted: number
+  intervalsCreated: number
+  logsSkipped: number
+  timedOut: boolean
+}
+
+interface CompactionRange {
+  from?: Date
+  before?: Date
+}
+
+function logRangeFilter(range: CompactionRange) {
+  if (!range.from && !range.before) return {}
+  return {
+    timestamp: {
+      ...(range.from ? { gte: range.from } : {}),
+      ...(range.before ? { lt: range.before } : {})
+    }
+  }
+}
+
+// The writes that fold a batch of a user's logs (oldest first) into their
+// compaction intervals, continuing the one before them if the status carries on
+async function intervalWritesForLogs(userId: string, logs: Array<{ status: string; timestamp: Date }>) {
+  const previous = await prisma.presenceInterval.findFirst({
+    where: { userId, source: 'compaction', endedAt: { lte: logs[0].timestamp } },
+    orderBy: { endedAt: 'desc' }
+  })
+
+  const intervals = applyObservations(
+    previous ? { ...previous, changed: false } : null,
+    logs.map(log => ({ userId, status: log.status as PresenceState, observedAt: log.timestamp, source: 'compaction' as const }))
+  ).filter(interval => interval.changed)
+
+  const updates = intervals.filter(interval => interval.id)
+  const creates = intervals.filter(interval => !interval.id)
+
+  return {
+    created: creates.length,
+    writes: [
+      ...updates.map(interval => prisma.presenceInterval.update({
+        where: { id: interval.id },
+        data: { endedAt: interval.endedAt }
+      })),
+      prisma.presenceInterval.createMany({
+        data: creates.map(interval => ({
+          userId,
+          status: interval.status,
+          startedAt: interval.startedAt,
+          endedAt: interval.endedAt,
+          source: 'compaction'
+        })),
+        // A live interval may already start at the same instant
+        skipDuplicates: true
+      })
+    ]
+  }
+}
+
+// Convert one batch of a user's raw presence_logs into intervals and delete the
+// logs in the same transaction, so the job can be stopped and re-run at any point.
+async function compactUserBatch(userId: string, range: CompactionRange, batchSize: number) {
+  const logs = await prisma.presenceLog.findMany({
+    where: { userId, ...logRangeFilter(range) },
+    select: { id: true, status: true, timestamp: true },
+    orderBy: { timestamp: 'asc' },
+    take: batchSize
+  })
+
+  if (logs.length === 0) return { logs: 0, created: 0 }
+
+  const { created, writes } = await intervalWritesForLogs(userId, logs)
+  await prisma.$transaction([
+    ...writes,
+    prisma.presenceLog.deleteMany({
+      where: { id: { in: logs.map(log => log.id) } }
+    })
+  ])
+
+  return { logs: logs.length, created }
+}
+
+// Fold the legacy one-row-per-poll presence_logs table into presence_intervals.
+// Logs that overlap intervals the live collector already wrote are left alone.
+// With dryRun, only counts the logs that would be compacted.
+export async function compactPresenceLogs(options: {
+  userIds?: string[]
+  from?: Date
+  to?: Date
+  batchSize?: number
+  timeBudgetMs?: number
+  dryRun?: boolean
+} = {}): Promise<CompactionResult> {
+  const batchSize = options.batchSize ?? 5000
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : null
+
+  const userIds = options.userIds
+    ?? (await prisma.presenceLog.groupBy({ by: ['userId'] })).map(group => group.userId)
+
+  const result: CompactionResult = { users: 0, logsCompacted: 0, intervalsCreated: 0, logsSkipped: 0, timedOut: false }
+
+  for (const userId of userIds) {
+    const firstLive = await prisma.presenceInterval.findFirst({
+      where: { userId, source: { not: 'compaction' } },
+      orderBy: { startedAt: 'asc' },
+      select: { startedAt: true }
+    })
+    const liveSince = firstLive?.startedAt
+    const before = liveSince && (!options.to || liveSince < options.to) ? liveSince : options.to
+    const range = { from: options.from, before }
+
+    if (options.dryRun) {
+      result.logsCompacted += await prisma.presenceLog.count({ where: { userId, ...logRangeFilter(range) } })
+    } else {
+      while (true) {
+        if (deadline && Date.now() > deadline) {
+          result.timedOut = true
+          return result
+        }
+
+        const batch = await compactUserBatch(userId, range, batchSize)
+        result.logsCompacted += batch.logs
+        result.intervalsCreated += batch.created
+        if (batch.logs < batchSize) break
+      }
+    }
+
+    if (liveSince && before === liveSince) {
+      result.logsSkipped += await prisma.presenceLog.count({
+        where: { userId, ...logRangeFilter({ from: liveSince, before: options.to }) }
+      })
+    }
+    result.users++
+    console.log(`🗜️ ${options.dryRun ? 'Checked' : 'Compacted'} presence logs for user ${userId} (${result.logsCompacted} logs${options.dryRun ? '' : ` → ${result.intervalsCreated} intervals`} so far)`)
+  }
+
+  return result
+}
+
+export interface IntervalRebuildResult {
+  users: number
+  logsRead: number
+  intervalsReplaced: number
+  intervalsCreated: number
+}
+
+// Rebuild the intervals derived from raw presence_logs from `from` on, after a
+// threshold change. Unlike compaction the logs are kept, so it can be run again
+// after the next change - retention deletes them in its own time. Intervals chain
+// into each other, so everything up to where live collection took over is
+// rebuilt, not just a window. Live intervals are never touched.
+export async function rebuildIntervalsFromLogs(options: {
+  userIds: string[]
+  from?: Date
+  batchSize?: number
+  dryRun?: boolean
+}): Promise<IntervalRebuildResult> {
+  const batchSize = options.batchSize ?? 5000
+  const result: IntervalRebuildResult = { users: 0, logsRead: 0, intervalsReplaced: 0, intervalsCreated: 0 }
+
+  for (const userId of options.userIds) {
+    const firstLive = await prisma.presenceInterval.findFirst({
+      where: { userId, source: { not: 'compaction' } },
+      orderBy: { startedAt: 'asc' },
+      select: { startedAt: true }
+    })
+    const where = { userId, ...logRangeFilter({ from: options.from, before: firstLive?.startedAt }) }
+
+    const firstLog = await prisma.presenceLog.findFirst({ where, orderBy: { timestamp: 'asc' }, select: { timestamp: true } })
+    if (!firstLog) continue
+
+    // Everything derived from these logs is rebuilt from them
+    const replaced = { userId, source: 'compaction', startedAt: { gte: firstLog.timestamp } }
+    if (options.dryRun) {
+      result.logsRead += await prisma.presenceLog.count({ where })
+      result.intervalsReplaced += await prisma.presenceInterval.count({ where: replaced })
+      result.users++
+      continue
+    }
+
+    const [deleted] = await prisma.$transaction([
+      prisma.presenceInterval.deleteMany({ where: replaced }),
+      // One that ran on into them from earlier logs is cut back to where they take over
+      prisma.presenceInterval.updateMany({
+        where: { userId, source: 'compaction', startedAt: { lt: firstLog.timestamp }, endedAt: { gt: firstLog.timestamp } },
+        data: { endedAt: firstLog.timestamp }
+      })
+    ])
+    result.intervalsReplaced += deleted.count
+
+    let cursor: string | undefined
+    while (true) {
+      const logs = await prisma.presenceLog.findMany({
+        where,
+        select: { id: true, status: true, timestamp: true },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      })
+      if (logs.length === 0) break
+
+      const { created, writes } = await intervalWritesForLogs(userId, logs)
+      await prisma.$transaction(writes)
+      result.logsRead += logs.length
+      result.intervalsCreated += created
+
+      if (logs.length < batchSize) break
+      cursor = logs[logs.length - 1].id
+    }
+
+    result.users++
+    console.log(`🔁 Rebuilt intervals for user ${userId} (${result.logsRead} logs → ${result.intervalsCreated} intervals so far)`)
+  }
+
+  return result
+}
@@ -0,0 +1,206 @@
+import crypto from 'crypto'
+import type { SlackPresence } from './slack'
+import type { SlackMember } from './slack-users'
+import type { WorkspaceToken } from './installations'
+import type { PresenceSource } from './presence-sources'
+import { localDateKey, zonedDayStart } from './timezone'
+
+// A seeded stand-in for a Slack workspace: the same seed always gives the same
+// people (names, timezones, titles) and the same days - believable working hours,
+// lunch breaks, idle stretches, the odd evening check-in and quiet weekends.
+// Nothing here touches the database, so the local stand-in servers can use it too.
+
+export const SIMULATED_WORKSPACE: WorkspaceToken = {
+  slackTeamId: 'TSIMULATED',
+  teamName: 'Simulated Workspace',
+  // Never sent anywhere - the simulator doesn't call Slack
+  token: '',
+  tokenType: 'simulated',
+  source: { kind: 'simulator' }
+}
+
+const SIMULATED_TIMEZONES = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/New_York',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+]
+const FIRST_NAMES = ['Ada', 'Ben', 'Chloe', 'Dev', 'Elena', 'Farid', 'Grace', 'Hiro', 'Ines', 'Jonas', 'Kemi', 'Luca', 'Maya', 'Noor', 'Omar', 'Priya', 'Quinn', 'Rosa', 'Sam', 'Tariq']
+const LAST_NAMES = ['Okafor', 'Lindqvist', 'Moreau', 'Tanaka', 'Silva', 'Kowalski', 'Haddad', 'Nguyen', 'Fischer', 'Patel', 'Reyes', 'Brennan']
+const TITLES = ['Software Engineer', 'Product Designer', 'Product Manager', 'Support Lead', 'Data Scientist', 'Engineering Manager']
+
+// How often a simulated subscription checks for changes
+const SIMULATOR_TICK_MS = 60 * 1000
+
+// Repeatable random numbers in [0, 1) - the same seed and key always give the same sequence
+function seededRandom(...key: Array<string | number>) {
+  let state = crypto.createHash('sha256').update(key.join(':')).digest().readUInt32LE(0)
+  return () => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)]
+}
+
+function between(random: () => number, min: number, max: number) {
+  return min + random() * (max - min)
+}
+
+// A simulated person's habits, fixed for a given seed and user id
+interface SimulatedProfile {
+  name: string
+  timezone: string
+  title: string
+  // Minutes after local midnight
+  workStart: number
+  workMinutes: number
+  lunchStart: number
+  lunchMinutes: number
+  // Some people look in on weekends
+  weekendCheckIns: boolean
+}
+
+function simulatedProfile(seed: string, slackUserId: string): SimulatedProfile {
+  const random = seededRandom(seed, 'profile', slackUserId)
+  return {
+    name: `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`,
+    timezone: pick(random, SIMULATED_TIMEZONES),
+    title: pick(random, TITLES),
+    workStart: Math.round(between(random, 7.5 * 60, 10 * 60)),
+    workMinutes: Math.round(between(random, 7.5 * 60, 9.5 * 60)),
+    lunchStart: Math.round(between(random, 11.75 * 60, 13.25 * 60)),
+    lunchMinutes: Math.round(between(random, 30, 60)),
+    weekendCheckIns: random() < 0.15
+  }
+}
+
+type SimulatedState = 'active' | 'idle' | 'manual_away' | 'disconnected'
+
+interface Span {
+  start: number
+  end: number
+  state: SimulatedState
+}
+
+// One local day for one person, as minute spans. Anything not covered is disconnected.
+function simulatedDay(seed: string, slackUserId: string, profile: SimulatedProfile, dateKey: string): Span[] {
+  const random = seededRandom(seed, 'day', slackUserId, dateKey)
+  const weekday = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()
+
+  if (weekday === 0 || weekday === 6) {
+    if (!profile.weekendCheckIns || random() < 0.5) return []
+    const start = Math.round(between(random, 10 * 60, 18 * 60))
+    return [{ start, end: start + Math.round(between(random, 10, 40)), state: 'active' }]
+  }
+
+  // The odd day off
+  if (random() < 0.04) return []
+
+  const start = profile.workStart + Math.round(between(random, -30, 30))
+  const end = start + profile.workMinutes + Math.round(between(random, -45, 45))
+  const lunchStart = profile.lunchStart + Math.round(between(random, -20, 20))
+  const lunchEnd = lunchStart + profile.lunchMinutes
+  // Lunch is either an explicit away or just walking off with Slack open
+  const lunchState: SimulatedState = random() < 0.4 ? 'manual_away' : 'idle'
+
+  const spans: Span[] = [{ start, end, state: 'active' }, { start: lunchStart, end: lunchEnd, state: lunchState }]
+
+  // Meetings and coffee: short stretches where Slack goes idle
+  const breaks = Math.floor(between(random, 1, 5))
+  for (let i = 0; i < breaks; i++) {
+    const breakStart = Math.round(between(random, start, end - 15))
+    spans.push({ start: breakStart, end: breakStart + Math.round(between(random, 5, 25)), state: 'idle' })
+  }
+
+  // Checking messages after dinner
+  if (random() < 0.3) {
+    const eveningStart = Math.round(between(random, 20 * 60, 22 * 60))
+    spans.push({ start: eveningStart, end: eveningStart + Math.round(between(random, 5, 30)), state: 'active' })
+  }
+
+  return spans
+}
+
+// Presence the simulator reports for a user at an instant
+export function simulatedPresence(seed: string, slackUserId: string, at: Date): SlackPresence {
+  const profile = simulatedProfile(seed, slackUserId)
+  const dateKey = localDateKey(at, profile.timezone)
+  const minute = Math.floor((at.getTime() - zonedDayStart(dateKey, profile.timezone).getTime()) / 60000)
+
+  // Later spans (lunch, breaks) sit on top of the workday
+  let state: SimulatedState = 'disconnected'
+  for (const span of simulatedDay(seed, slackUserId, profile, dateKey)) {
+    if (minute >= span.start && minute < span.end) state = span.state
+  }
+
+  const online = state !== 'disconnected'
+  return {
+    presence: state === 'active' ? 'active' : 'away',
+    online,
+    auto_away: state === 'idle',
+    manual_away: state === 'manual_away',
+    connection_count: online ? 1 : 0
+  }
+}
+
+function simulatedMember(seed: string, slackUserId: string): SlackMember {
+  const profile = simulatedProfile(seed, slackUserId)
+  return {
+    id: slackUserId,
+    team_id: SIMULATED_WORKSPACE.slackTeamId,
+    name: profile.name.toLowerCase().replace(' ', '.'),
+    real_name: profile.name,
+    tz: profile.timezone,
+    profile: {
+      email: `${profile.name.toLowerCase().replace(' ', '.')}+${slackUserId.toLowerCase()}@simulated.example`,
+      display_name: profile.name.split(' ')[0],
+      title: profile.title
+    }
+  }
+}
+
+export function simulatorSeed() {
+  return process.env.PRESENCE_SIMULATOR_SEED || 'slack-presence'
+}
+
+export function createSimulatorSource(options: { seed?: string; members?: number } = {}): PresenceSource {
+  const seed = options.seed ?? simulatorSeed()
+  const memberCount = options.members ?? parseInt(process.env.PRESENCE_SIMULATOR_MEMBERS || '20')
+
+  return {
+    kind: 'simulator',
+    listWorkspaces: async () => [SIMULATED_WORKSPACE],
+    listMembers: async () => Array.from({ length: memberCount }, (_, index) =>
+      simulatedMember(seed, `USIM${String(index + 1).padStart(4, '0')}`)
+    ),
+    getPresence: async slackUserId => simulatedPresence(seed, slackUserId, new Date()),
+    subscribe(_workspace, slackUserIds, onChange) {
+      const last = new Map<string, string>()
+
+      // Report everyone straight away, like presence_query, then only changes
+      const tick = () => {
+        const observedAt = new Date()
+        for (const slackUserId of slackUserIds) {
+          const presence = simulatedPresence(seed, slackUserId, observedAt)
+          const key = JSON.stringify(presence)
+          if (last.get(slackUserId) === key) continue
+          last.set(slackUserId, key)
+          onChange({ slackUserId, presence, observedAt })
+        }
+      }
+      tick()
+      const timer = setInterval(tick, SIMULATOR_TICK_MS)
+      return () => clearInterval(timer)
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import WebSocket from 'ws'
+import { getAllTeamMembers, getUserPresence, slackApi, type SlackPresence } from './slack'
+import type { SlackMember } from './slack-users'
+import type { WorkspaceToken } from './installations'
+import { getHealthyWorkspaceTokens } from './credential-health'
+import { createSimulatorSource } from './presence-simulator'
+
+// Where collectors get members and presence from. Slack is the real thing; the
+// simulator (presence-simulator.ts) is a seeded stand-in that produces believable
+// workdays so collection, summaries and the dashboard can be exercised without a
+// workspace. PRESENCE_SOURCE picks one.
+
+export type PresenceSourceKind = 'slack' | 'simulator'
+
+export interface PresenceChange {
+  slackUserId: string
+  presence: SlackPresence
+  observedAt: Date
+}
+
+export interface PresenceSource {
+  kind: PresenceSourceKind
+  // Workspaces to collect, each with a token that currently works
+  listWorkspaces(): Promise<WorkspaceToken[]>
+  listMembers(workspace: WorkspaceToken): Promise<SlackMember[]>
+  getPresence(slackUserId: string, workspace: WorkspaceToken): Promise<SlackPresence>
+  // Calls onChange as subscribed users' presence changes. Returns a function that unsubscribes.
+  subscribe(workspace: WorkspaceToken, slackUserIds: string[], onChange: (change: PresenceChange) => void): () => void
+}
+
+interface RtmPresenceMessage {
+  type?: string
+  user?: string
+  users?: string[]
+  presence?: SlackPresence['presence']
+}
+
+// A bare RTM presence subscription. It doesn't reconnect or record anything -
+// the presence worker does that for long-running collection.
+function subscribeToSlackPresence(
+  workspace: WorkspaceToken,
+  slackUserIds: string[],
+  onChange: (change: PresenceChange) => void
+) {
+  let socket: WebSocket | null = null
+  let closed = false
+
+  slackApi('rtm.connect', workspace.token, { batch_presence_aware: true, presence_sub: true }, { maxWaitMs: 60 * 1000, slackTeamId: workspace.slackTeamId })
+    .then(connection => {
+      if (closed) return
+      const rtm = new WebSocket(connection.url)
+      socket = rtm
+
+      rtm.on('message', data => {
+        let message: RtmPresenceMessage
+        try {
+          message = JSON.parse(data.toString())
+        } catch {
+          return
+        }
+
+        if (message.type === 'hello') {
+          rtm.send(JSON.stringify({ id: 1, type: 'presence_sub', ids: slackUserIds }))
+        } else if (message.type === 'presence_change' && message.presence) {
+          const observedAt = new Date()
+          const ids = message.users || (message.user ? [message.user] : [])
+          ids.forEach(slackUserId => onChange({ slackUserId, presence: { presence: message.presence! }, observedAt }))
+        }
+      })
+      rtm.on('error', error => console.error(`❌ Slack presence subscription for ${workspace.slackTeamId} failed:`, error.message))
+    })
+    .catch(error => {
+      console.error(`❌ Could not open a Slack presence subscription for ${workspace.slackTeamId}:`, error instanceof Error ? error.message : String(error))
+    })
+
+  return () => {
+    closed = true
+    socket?.close()
+  }
+}
+
+export const slackPresenceSource: PresenceSource = {
+  kind: 'slack',
+  // Each installed workspace with its own token, failing over when Slack revoked the usual one
+  listWorkspaces: getHealthyWorkspaceTokens,
+  // Follows users.list cursors so large workspaces aren't truncated at the first page
+  listMembers: workspace => getAllTeamMembers(workspace.token, workspace.slackTeamId),
+  // The gateway keeps us inside the users.getPresence tier and backs off on 429s
+  getPresence: (slackUserId, workspace) => getUserPresence(slackUserId, workspace.token, workspace.slackTeamId),
+  subscribe: subscribeToSlackPresence
+}
+
+// The source named by PRESENCE_SOURCE (default slack)
+export function getPresenceSource(): PresenceSource {
+  const kind = process.env.PRESENCE_SOURCE || 'slack'
+  switch (kind) {
+    case 'slack':
+      return slackPresenceSource
+    case 'simulator':
+      return createSimulatorSource()
+    default:
+      throw new Error(`Unknown PRESENCE_SOURCE "${kind}" - expected slack or simulator`)
+  }
+}
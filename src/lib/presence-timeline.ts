@@ -0,0 +1,154 @@
+import { summarizeIntervals, type PresenceIntervalSpan, type PresenceState } from './presence-intervals'
+import type { CollectorGap } from './collection-runs'
+import { dndMinutes } from './dnd'
+
+// Builds the 96 fifteen-minute blocks shown for a user's day, shared by the
+// dashboard and the per-user activity view.
+
+export type PresenceBlockStatus =
+  | 'online'
+  | 'idle'
+  | 'manual-away'
+  | 'disconnected'
+  | 'offline'
+  | 'no-data'
+  | 'collector-gap'
+  | 'not-tracked'
+
+export interface PresenceBlock {
+  hour: number
+  quarter: number
+  blockIndex: number
+  status: PresenceBlockStatus
+  onlinePercentage: number
+  activeMinutes: number
+  // Minutes in each presence state, for blocks where we saw the user
+  stateMinutes: Partial<Record<PresenceState, number>>
+  // Minutes with Do Not Disturb on, drawn as an overlay on the block
+  dndMinutes: number
+  totalMinutes: number
+  messageCount: number
+  hasMessages: boolean
+  blockStart: string
+  blockEnd: string
+}
+
+export interface TimelineContext {
+  // When we started tracking this user - earlier blocks are "not-tracked"
+  trackedSince: Date
+  // Windows where the collector itself wasn't running
+  gaps: CollectorGap[]
+}
+
+// Require 6+ active minutes in a 15-minute block to call it online
+const ONLINE_THRESHOLD_MINUTES = 6
+
+const BLOCK_MINUTES = 15
+
+// Blocks that say nothing about the user, so they stay out of their totals. That
+// includes 'no-data', which is also what the rest of today (still in the future) shows.
+const UNTRACKED_STATUSES: PresenceBlockStatus[] = ['no-data', 'collector-gap', 'not-tracked']
+
+// States that say why someone wasn't active. Plain "away" and "offline" don't,
+// so those blocks stay "offline".
+const INACTIVE_BLOCK_STATUSES: Partial<Record<PresenceState, PresenceBlockStatus>> = {
+  idle: 'idle',
+  manual_away: 'manual-away',
+  disconnected: 'disconnected'
+}
+
+// A block that isn't online takes its longest inactive state, or the last one
+// seen if every observation in the block was instantaneous
+function inactiveBlockStatus(stateMinutes: Partial<Record<PresenceState, number>>, lastStatus: string | null) {
+  let longest: PresenceState | null = null
+  for (const [state, minutes] of Object.entries(stateMinutes) as [PresenceState, number][]) {
+    if (state !== 'active' && minutes > 0 && (!longest || minutes > (stateMinutes[longest] || 0))) {
+      longest = state
+    }
+  }
+
+  const state = longest ?? (lastStatus as PresenceState | null)
+  return (state && INACTIVE_BLOCK_STATUSES[state]) || 'offline'
+}
+
+function blockStatus(
+  summary: ReturnType<typeof summarizeIntervals>,
+  blockStart: Date,
+  blockEnd: Date,
+  context: TimelineContext
+): PresenceBlockStatus {
+  if (summary.observed) {
+    return summary.activeMinutes >= ONLINE_THRESHOLD_MINUTES
+      ? 'online'
+      : inactiveBlockStatus(summary.stateMinutes, summary.lastStatus)
+  }
+  if (blockEnd <= context.trackedSince) {
+    return 'not-tracked'
+  }
+  if (context.gaps.some(gap => gap.start < blockEnd && gap.end > blockStart)) {
+    return 'collector-gap'
+  }
+  return 'no-data'
+}
+
+export function buildDayTimeline(
+  dayStart: Date,
+  intervals: PresenceIntervalSpan[],
+  messageTimes: Date[],
+  dndSpans: PresenceIntervalSpan[],
+  context: TimelineContext
+): PresenceBlock[] {
+  const timeline: PresenceBlock[] = []
+
+  for (let hour = 0; hour < 24; hour++) {
+    for (let quarter = 0; quarter < 4; quarter++) {
+      const blockStart = new Date(dayStart.getTime() + (hour * 60 + quarter * BLOCK_MINUTES) * 60 * 1000)
+      const blockEnd = new Date(blockStart.getTime() + BLOCK_MINUTES * 60 * 1000)
+
+      const summary = summarizeIntervals(intervals, blockStart, blockEnd)
+      const messageCount = messageTimes.filter(postedAt =>
+        postedAt >= blockStart && postedAt < blockEnd
+      ).length
+
+      timeline.push({
+        hour,
+        quarter,
+        blockIndex: hour * 4 + quarter,
+        status: blockStatus(summary, blockStart, blockEnd, context),
+        onlinePercentage: Math.round((summary.activeMinutes / BLOCK_MINUTES) * 100),
+        activeMinutes: summary.activeMinutes,
+        stateMinutes: summary.stateMinutes,
+        dndMinutes: dndMinutes(dndSpans, blockStart, blockEnd),
+        totalMinutes: BLOCK_MINUTES,
+        messageCount,
+        hasMessages: messageCount > 0,
+        blockStart: blockStart.toISOString(),
+        blockEnd: blockEnd.toISOString(),
+      })
+    }
+  }
+
+  return timeline
+}
+
+// Totals for a day. trackedMinutes only counts blocks where the user was seen,
+// leaving out collector gaps, time before tracking started and time that hasn't
+// happened yet, so averages aren't dragged down by our own outages.
+export function summarizeTimeline(timeline: PresenceBlock[]) {
+  const tracked = timeline.filter(block => !UNTRACKED_STATUSES.includes(block.status))
+
+  const stateMinutes: Partial<Record<PresenceState, number>> = {}
+  tracked.forEach(block => {
+    for (const [state, minutes] of Object.entries(block.stateMinutes) as [PresenceState, number][]) {
+      stateMinutes[state] = (stateMinutes[state] || 0) + minutes
+    }
+  })
+
+  return {
+    totalActiveMinutes: tracked.reduce((sum, block) => sum + block.activeMinutes, 0),
+    trackedMinutes: tracked.reduce((sum, block) => sum + block.totalMinutes, 0),
+    messageCount: timeline.reduce((sum, block) => sum + block.messageCount, 0),
+    dndMinutes: tracked.reduce((sum, block) => sum + block.dndMinutes, 0),
+    stateMinutes,
+  }
+}
@@ -0,0 +1,344 @@
+import WebSocket from 'ws'
+import { prisma } from './db'
+import { slackApi, type SlackDndStatus } from './slack'
+import { recordPresenceObservations } from './presence-intervals'
+import { collectDndStatus, dndStatusAt, recordDndObservations } from './dnd'
+import { getWorkspaceTokens } from './installations'
+import { resolveWorkspaceToken } from './credential-health'
+
+// Long-running alternative to polling users.getPresence. Opens a Slack real-time
+// connection, subscribes to presence for every tracked user and records each
+// presence_change the moment it arrives. The cron poller stands down while this
+// worker's heartbeat is fresh and takes over again as soon as it stops. Each
+// workspace gets its own worker (and heartbeat), since a connection only sees one team.
+
+export const PRESENCE_WORKER_NAME = 'presence-worker'
+
+// Polling resumes when the worker hasn't checked in for this long
+export const PRESENCE_WORKER_STALE_MS = 2 * 60 * 1000
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+const PING_INTERVAL_MS = 30 * 1000
+
+// Re-confirm unchanged presence well inside PRESENCE_INTERVAL_MAX_GAP_MS so the
+// current intervals keep extending between transitions
+const SNAPSHOT_INTERVAL_MS = 2 * 60 * 1000
+
+// Pick up newly joined or deactivated users
+const SUBSCRIPTION_REFRESH_MS = 10 * 60 * 1000
+
+const MAX_RECONNECT_DELAY_MS = 60 * 1000
+
+type PresenceStatus = 'active' | 'away'
+
+interface RtmMessage {
+  type?: string
+  reply_to?: number
+  user?: string
+  users?: string[]
+  presence?: PresenceStatus
+  dnd_status?: SlackDndStatus
+  error?: { code: number; msg: string }
+}
+
+interface TrackedUser {
+  id: string
+  name: string | null
+  presence: PresenceStatus | null
+}
+
+export interface PresenceWorkerOptions {
+  // Connect here instead of asking Slack via rtm.connect (local stand-in)
+  rtmUrl?: string
+  // The workspace to track. The stand-in worker leaves this out and tracks everyone.
+  slackTeamId?: string
+}
+
+export function presenceWorkerName(slackTeamId?: string | null) {
+  return slackTeamId ? `${PRESENCE_WORKER_NAME}:${slackTeamId}` : PRESENCE_WORKER_NAME
+}
+
+// Whether this workspace's own presence worker has checked in recently enough to
+// replace polling. A worker without a team (the stand-in's) never stands in for
+// polling, since it isn't subscribed to any real workspace.
+export async function isPresenceWorkerActive(slackTeamId: string): Promise<boolean> {
+  const heartbeat = await prisma.workerHeartbeat.findFirst({
+    where: {
+      name: presenceWorkerName(slackTeamId),
+      lastSeenAt: { gte: new Date(Date.now() - PRESENCE_WORKER_STALE_MS) }
+    }
+  })
+  return !!heartbeat
+}
+
+// A working token for the workspace (failing over if its usual one was revoked),
+// or the first installed workspace's if none was given
+async function getPresenceToken(slackTeamId?: string): Promise<string | null> {
+  if (slackTeamId) {
+    return (await resolveWorkspaceToken(slackTeamId))?.token ?? null
+  }
+  const [workspace] = await getWorkspaceTokens()
+  return workspace?.token ?? null
+}
+
+export class PresenceWorker {
+  private socket: WebSocket | null = null
+  private users = new Map<string, TrackedUser>()
+  private timers: NodeJS.Timeout[] = []
+  private messageId = 0
+  private reconnectAttempts = 0
+  private stopped = false
+  private startedAt = new Date()
+  private connectedAt: Date | null = null
+  private transitionsRecorded = 0
+
+  constructor(private options: PresenceWorkerOptions = {}) {}
+
+  private get name() {
+    return presenceWorkerName(this.options.slackTeamId)
+  }
+
+  async start() {
+    console.log(`🚀 Starting presence worker (${this.options.rtmUrl ? `stand-in at ${this.options.rtmUrl}` : `Slack RTM for ${this.options.slackTeamId || 'the first workspace'}`})`)
+    this.stopped = false
+    this.startedAt = new Date()
+
+    await this.connect()
+
+    this.timers.push(setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS))
+    this.timers.push(setInterval(() => this.ping(), PING_INTERVAL_MS))
+    this.timers.push(setInterval(() => this.recordSnapshot(), SNAPSHOT_INTERVAL_MS))
+    this.timers.push(setInterval(() => this.recordDndSnapshot(), SNAPSHOT_INTERVAL_MS))
+    this.timers.push(setInterval(() => this.subscribe(), SUBSCRIPTION_REFRESH_MS))
+  }
+
+  async stop() {
+    console.log('🛑 Stopping presence worker')
+    this.stopped = true
+    this.timers.forEach(timer => clearInterval(timer))
+    this.timers = []
+    this.socket?.close()
+    this.socket = null
+
+    // Hand presence collection straight back to the poller
+    await prisma.workerHeartbeat.delete({
+      where: { name: this.name }
+    }).catch(() => undefined)
+  }
+
+  private async connect() {
+    let url = this.options.rtmUrl
+    if (!url) {
+      const token = await getPresenceToken(this.options.slackTeamId)
+      if (!token) {
+        throw new Error(`No Slack token available for the presence worker${this.options.slackTeamId ? ` (team ${this.options.slackTeamId})` : ''}`)
+      }
+      const connection = await slackApi('rtm.connect', token, { batch_presence_aware: true, presence_sub: true }, { maxWaitMs: 60 * 1000, slackTeamId: this.options.slackTeamId })
+      console.log(`🔌 rtm.connect succeeded for team ${connection.team.id} as ${connection.self.name}`)
+      url = connection.url
+    }
+
+    const socket = new WebSocket(url)
+    this.socket = socket
+
+    socket.on('open', () => {
+      console.log('✅ Presence worker connected')
+      this.connectedAt = new Date()
+      this.reconnectAttempts = 0
+    })
+
+    socket.on('message', data => {
+      let message: RtmMessage
+      try {
+        message = JSON.parse(data.toString())
+      } catch {
+        console.warn('⚠️ Ignoring non-JSON RTM frame')
+        return
+      }
+      this.handleMessage(message).catch(error => {
+        console.error(`❌ Error handling RTM ${message.type || 'reply'}:`, error)
+      })
+    })
+
+    socket.on('close', code => {
+      this.connectedAt = null
+      if (this.socket === socket) this.socket = null
+      if (this.stopped) return
+      console.warn(`⚠️ Presence worker disconnected (code ${code})`)
+      this.scheduleReconnect()
+    })
+
+    socket.on('error', error => {
+      console.error('❌ Presence worker socket error:', error.message)
+    })
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS)
+    this.reconnectAttempts++
+    console.log(`🔄 Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`)
+
+    setTimeout(() => {
+      if (this.stopped) return
+      this.connect().catch(error => {
+        console.error('❌ Presence worker reconnect failed:', error)
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  private async handleMessage(message: RtmMessage) {
+    switch (message.type) {
+      case 'hello':
+        await this.subscribe()
+        await this.heartbeat()
+        break
+      case 'presence_change': {
+        // batch_presence_aware sends one event for many users sharing a presence
+        const slackUserIds = message.users || (message.user ? [message.user] : [])
+        if (message.presence) {
+          await this.recordTransitions(slackUserIds, message.presence)
+        }
+        break
+      }
+      case 'dnd_updated':
+      case 'dnd_updated_user':
+        await this.recordDndUpdate(message)
+        break
+      case 'goodbye':
+        // Slack is about to close the connection - reconnect on our terms
+        console.log('👋 Slack sent goodbye, reconnecting')
+        this.socket?.close()
+        break
+      case 'error':
+        console.error('❌ RTM error:', message.error)
+        break
+      default:
+        break
+    }
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return
+    this.socket.send(JSON.stringify({ id: ++this.messageId, ...message }))
+  }
+
+  private ping() {
+    this.send({ type: 'ping' })
+  }
+
+  // presence_sub replaces the previous subscription, so always send the full list
+  private async subscribe() {
+    const users = await prisma.user.findMany({
+      where: {
+        ...(this.options.slackTeamId ? { slackTeamId: this.options.slackTeamId } : {}),
+        isActive: true
+      },
+      select: { id: true, name: true, slackUserId: true }
+    })
+
+    const tracked = new Map<string, TrackedUser>()
+    users.forEach(user => {
+      tracked.set(user.slackUserId, {
+        id: user.id,
+        name: user.name,
+        presence: this.users.get(user.slackUserId)?.presence ?? null
+      })
+    })
+    this.users = tracked
+
+    const ids = [...tracked.keys()]
+    this.send({ type: 'presence_sub', ids })
+    // Ask for current presence so we have a starting point without waiting for a change
+    this.send({ type: 'presence_query', ids })
+    console.log(`📡 Subscribed to presence for ${ids.length} users`)
+  }
+
+  private async recordTransitions(slackUserIds: string[], presence: PresenceStatus) {
+    const now = new Date()
+    const observations = []
+
+    for (const slackUserId of slackUserIds) {
+      const user = this.users.get(slackUserId)
+      if (!user || user.presence === presence) continue
+
+      const previous = user.presence
+      user.presence = presence
+      observations.push({ userId: user.id, status: presence, observedAt: now, source: 'presence_sub' as const })
+      console.log(`🟢 ${user.name || slackUserId}: ${previous ?? 'unknown'} → ${presence}`)
+    }
+
+    if (observations.length === 0) return
+    await recordPresenceObservations(observations)
+    this.transitionsRecorded += observations.length
+  }
+
+  private async recordDndUpdate(message: RtmMessage) {
+    const user = message.user ? this.users.get(message.user) : undefined
+    if (!user || !message.dnd_status) return
+
+    const now = new Date()
+    try {
+      await recordDndObservations([{ userId: user.id, status: dndStatusAt(message.dnd_status, now), observedAt: now, source: 'rtm' }])
+    } catch (error) {
+      console.error('❌ Failed to record DND update:', error)
+    }
+  }
+
+  // RTM only reports DND changes, so scheduled windows starting or ending are
+  // picked up by polling dnd.teamInfo with each snapshot. The stand-in has no Web API.
+  private async recordDndSnapshot() {
+    if (this.options.rtmUrl) return
+
+    const token = await getPresenceToken(this.options.slackTeamId)
+    if (!token) return
+
+    const users = [...this.users.entries()].map(([slackUserId, user]) => ({ id: user.id, slackUserId }))
+    try {
+      await collectDndStatus(users, { token, slackTeamId: this.options.slackTeamId })
+    } catch (error) {
+      console.error('❌ Failed to record DND snapshot:', error)
+    }
+  }
+
+  // Between transitions, keep confirming the known state so intervals stay open
+  private async recordSnapshot() {
+    if (!this.connectedAt) return
+
+    const now = new Date()
+    const observations = [...this.users.values()]
+      .filter(user => user.presence !== null)
+      .map(user => ({ userId: user.id, status: user.presence!, observedAt: now, source: 'presence_sub' as const }))
+
+    if (observations.length === 0) return
+    try {
+      await recordPresenceObservations(observations)
+    } catch (error) {
+      console.error('❌ Failed to record presence snapshot:', error)
+    }
+  }
+
+  private async heartbeat() {
+    // Only claim to be collecting while we actually have a live connection
+    if (!this.connectedAt) return
+
+    const metadata = JSON.stringify({
+      pid: process.pid,
+      connectedAt: this.connectedAt.toISOString(),
+      subscribedUsers: this.users.size,
+      transitionsRecorded: this.transitionsRecorded,
+      standIn: !!this.options.rtmUrl,
+      slackTeamId: this.options.slackTeamId || null
+    })
+
+    try {
+      await prisma.workerHeartbeat.upsert({
+        where: { name: this.name },
+        create: { name: this.name, startedAt: this.startedAt, lastSeenAt: new Date(), metadata },
+        update: { lastSeenAt: new Date(), metadata }
+      })
+    } catch (error) {
+      console.error('❌ Failed to write presence worker heartbeat:', error)
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { aggregateLogs, mergeBuckets } from './presence-buckets'
+import { rebuildDailySummary } from './daily-summaries'
+import { localDateKey } from './timezone'
+
+// Retention for raw presence_logs. Logs older than their workspace's window are
+// rolled into presence buckets, checked against the bucket totals and deleted in
+// the same transaction, one batch at a time. Daily summaries for the affected
+// days are then rebuilt from what's left.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A local day can run up to ~26 hours behind UTC, so anything shorter could
+// prune a day that hasn't been summarized yet
+export const MIN_RAW_RETENTION_DAYS = 2
+
+export const DEFAULT_RAW_RETENTION_DAYS = Math.max(
+  MIN_RAW_RETENTION_DAYS,
+  parseInt(process.env.PRESENCE_LOG_RETENTION_DAYS || '30') || 30
+)
+
+export interface WorkspaceRetention {
+  slackTeamId: string | null
+  rawRetentionDays: number
+  enabled: boolean
+  source: 'workspace' | 'default'
+  cutoff: Date
+}
+
+export interface RetentionEstimate extends WorkspaceRetention {
+  rows: number
+  // Approximate table data reclaimed - indexes shrink too but aren't counted
+  bytes: number
+}
+
+export interface RetentionResult {
+  logsDeleted: number
+  bucketsWritten: number
+  summariesRebuilt: number
+  users: number
+  timedOut: boolean
+}
+
+// The effective policy for every workspace we have users or a policy for
+export async function getWorkspaceRetention(now: Date = new Date()): Promise<WorkspaceRetention[]> {
+  const [teams, policies] = await Promise.all([
+    prisma.user.groupBy({ by: ['slackTeamId'] }),
+    prisma.retentionPolicy.findMany()
+  ])
+
+  const policyByTeam = new Map(policies.map(policy => [policy.slackTeamId, policy]))
+  const teamIds = new Set<string | null>([...teams.map(team => team.slackTeamId), ...policyByTeam.keys()])
+
+  return [...teamIds].map(slackTeamId => {
+    const policy = slackTeamId ? policyByTeam.get(slackTeamId) : undefined
+    const rawRetentionDays = policy?.rawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS
+
+    return {
+      slackTeamId,
+      rawRetentionDays,
+      enabled: policy?.enabled ?? true,
+      source: policy ? 'workspace' as const : 'default' as const,
+      cutoff: new Date(now.getTime() - rawRetentionDays * DAY_MS)
+    }
+  })
+}
+
+export async function setRetentionPolicy(slackTeamId: string, rawRetentionDays: number, enabled: boolean = true) {
+  if (!Number.isInteger(rawRetentionDays) || rawRetentionDays < MIN_RAW_RETENTION_DAYS) {
+    throw new Error(`rawRetentionDays must be a whole number of at least ${MIN_RAW_RETENTION_DAYS}`)
+  }
+
+  return prisma.retentionPolicy.upsert({
+    where: { slackTeamId },
+    create: { slackTeamId, rawRetentionDays, enabled },
+    update: { rawRetentionDays, enabled }
+  })
+}
+
+// Dry-run report: how many presence_logs each workspace's policy would prune
+export async function estimateRetention(workspaces: WorkspaceRetention[]): Promise<RetentionEstimate[]> {
+  const estimates: RetentionEstimate[] = []
+
+  for (const workspace of workspaces) {
+    const teamFilter = workspace.slackTeamId
+      ? Prisma.sql`u.slack_team_id = ${workspace.slackTeamId}`
+      : Prisma.sql`u.slack_team_id IS NULL`
+
+    const [totals] = await prisma.$queryRaw<Array<{ row_count: bigint; byte_count: bigint }>>`
+      SELECT
+        COUNT(*) as row_count,
+        COALESCE(SUM(pg_column_size(pl.*)), 0)::bigint as byte_count
+      FROM presence_logs pl
+      JOIN users u ON u.id = pl.user_id
+      WHERE ${teamFilter}
+        AND pl.timestamp < ${workspace.cutoff}
+    `
+
+    estimates.push({
+      ...workspace,
+      rows: Number(totals?.row_count || 0),
+      bytes: Number(totals?.byte_count || 0)
+    })
+  }
+
+  return estimates
+}
+
+// Roll one batch of a user's expired logs into buckets and delete them. The
+// transaction rolls back if the bucket totals don't account for every log.
+async function pruneUserBatch(userId: string, cutoff: Date, batchSize: number) {
+  const logs = await prisma.presenceLog.findMany({
+    where: { userId, timestamp: { lt: cutoff } },
+    select: { id: true, status: true, timestamp: true },
+    orderBy: { timestamp: 'asc' },
+    take: batchSize
+  })
+
+  if (logs.length === 0) return { logs, bucketsWritten: 0 }
+
+  const buckets = aggregateLogs(logs)
+  const bucketStarts = buckets.map(bucket => bucket.bucketStart)
+
+  await prisma.$transaction(async tx => {
+    const existing = await tx.presenceBucket.findMany({
+      where: { userId, bucketStart: { in: bucketStarts } }
+    })
+    const existingByStart = new Map(existing.map(bucket => [bucket.bucketStart.getTime(), bucket]))
+    const samplesBefore = existing.reduce((sum, bucket) => sum + bucket.sampleCount, 0)
+
+    // The backfill rolls up logs while they're still stored, so its buckets already count them
+    let alreadyCounted = 0
+    const creates = []
+    for (const bucket of buckets) {
+      const current = existingByStart.get(bucket.bucketStart.getTime())
+      if (current?.source === 'backfill') {
+        if (current.sampleCount < bucket.sampleCount) {
+          throw new Error(`Bucket check failed for user ${userId}: backfilled bucket at ${bucket.bucketStart.toISOString()} holds ${current.sampleCount} samples but ${bucket.sampleCount} logs are being pruned from it`)
+        }
+        alreadyCounted += bucket.sampleCount
+      } else if (current) {
+        const { sampleCount, activeCount, firstActiveAt, lastActiveAt } = mergeBuckets(current, bucket)
+        await tx.presenceBucket.update({
+          where: { id: current.id },
+          data: { sampleCount, activeCount, firstActiveAt, lastActiveAt }
+        })
+      } else {
+        creates.push({ userId, ...bucket })
+      }
+    }
+    await tx.presenceBucket.createMany({ data: creates })
+
+    const after = await tx.presenceBucket.aggregate({
+      where: { userId, bucketStart: { in: bucketStarts } },
+      _sum: { sampleCount: true }
+    })
+    const samplesAdded = (after._sum.sampleCount || 0) - samplesBefore
+    if (samplesAdded + alreadyCounted !== logs.length) {
+      throw new Error(`Bucket check failed for user ${userId}: ${logs.length - alreadyCounted} logs rolled up but buckets grew by ${samplesAdded}`)
+    }
+
+    const deleted = await tx.presenceLog.deleteMany({
+      where: { id: { in: logs.map(log => log.id) } }
+    })
+    if (deleted.count !== logs.length) {
+      throw new Error(`Expected to delete ${logs.length} presence logs for user ${userId} but deleted ${deleted.count}`)
+    }
+  }, { timeout: 30 * 1000 })
+
+  return { logs, bucketsWritten: buckets.length }
+}
+
+// Apply each enabled workspace policy. Works within an optional time budget and
+// can be repeated until it no longer reports timedOut.
+export async function applyRetention(workspaces: WorkspaceRetention[], options: {
+  batchSize?: number
+  timeBudgetMs?: number
+} = {}): Promise<RetentionResult> {
+  const batchSize = options.batchSize ?? 1000
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : null
+  const result: RetentionResult = { logsDeleted: 0, bucketsWritten: 0, summariesRebuilt: 0, users: 0, timedOut: false }
+
+  for (const workspace of workspaces.filter(workspace => workspace.enabled)) {
+    const users = await prisma.user.findMany({
+      where: {
+        slackTeamId: workspace.slackTeamId,
+        presenceLogs: { some: { timestamp: { lt: workspace.cutoff } } }
+      },
+      select: { id: true, timezone: true, slackTeamId: true, createdAt: true }
+    })
+
+    for (const user of users) {
+      const touchedDays = new Set<string>()
+
+      while (true) {
+        if (deadline && Date.now() > deadline) {
+          result.timedOut = true
+          break
+        }
+
+        const batch = await pruneUserBatch(user.id, workspace.cutoff, batchSize)
+        batch.logs.forEach(log => touchedDays.add(localDateKey(log.timestamp, user.timezone)))
+        result.logsDeleted += batch.logs.length
+        result.bucketsWritten += batch.bucketsWritten
+        if (batch.logs.length < batchSize) break
+      }
+
+      // Summaries for days that lost raw logs now come from intervals or buckets
+      for (const dateKey of touchedDays) {
+        const { action } = await rebuildDailySummary(user, dateKey, { source: 'retention' })
+        if (action === 'created' || action === 'updated') result.summariesRebuilt++
+      }
+
+      result.users++
+      console.log(`🧹 Pruned presence logs for user ${user.id} (${result.logsDeleted} logs → ${result.bucketsWritten} buckets so far)`)
+
+      if (result.timedOut) return result
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,281 @@
+import { PrismaClient, type Prisma } from '@prisma/client'
+import { prisma } from './db'
+import vercelConfig from '../../vercel.json'
+
+// In-process job runner for self-hosting, where there are no Vercel crons. Jobs
+// are registered with cron expressions (UTC, like Vercel's) - by default every
+// cron in vercel.json, run by calling its route the way Vercel would. Each run
+// takes a Postgres advisory lock first, so a run that overlaps the previous one,
+// or a second instance of the app, skips instead of collecting twice. Each job's
+// last success and failure are kept in job_states.
+//
+// Starts with the app when SCHEDULER_ENABLED=true (see instrumentation.ts), or on
+// its own with `npm run dev:cron`.
+
+export interface ScheduledJob {
+  name: string
+  // minute hour day-of-month month day-of-week
+  schedule: string
+  run: () => Promise<void>
+}
+
+export type JobRunOutcome = 'succeeded' | 'failed' | 'overlapping' | 'locked'
+
+interface CronField {
+  values: Set<number>
+  // "*" - matters for the day-of-month/day-of-week rule
+  any: boolean
+}
+
+interface RegisteredJob extends ScheduledJob {
+  fields: CronField[]
+}
+
+const CRON_FIELD_RANGES = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 } // day of week, 0 and 7 both Sunday
+]
+
+const jobs = new Map<string, RegisteredJob>()
+// Session-level advisory locks are re-entrant, so overlap within this process is caught here
+const running = new Set<string>()
+let tickTimer: NodeJS.Timeout | null = null
+let lockClient: PrismaClient | null = null
+
+function parseCronField(field: string, range: { min: number; max: number }): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [base, stepText] = part.split('/')
+    const step = stepText ? parseInt(stepText, 10) : 1
+    let [start, end] = [range.min, range.max]
+
+    if (base !== '*') {
+      const [from, to] = base.split('-').map(value => parseInt(value, 10))
+      start = from
+      // "5/15" means from 5 to the end of the range
+      end = to ?? (stepText ? range.max : from)
+    }
+
+    if ([start, end, step].some(isNaN) || step < 1 || start < range.min || end > range.max || start > end) {
+      throw new Error(`Invalid cron field "${field}"`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return { values, any: field === '*' }
+}
+
+export function parseCronExpression(expression: string): CronField[] {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" should have 5 fields`)
+  }
+  return fields.map((field, index) => parseCronField(field, CRON_FIELD_RANGES[index]))
+}
+
+// Whether a cron schedule fires in the (UTC) minute containing `at`
+export function cronMatches(fields: CronField[], at: Date): boolean {
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  const weekday = at.getUTCDay()
+
+  // Like cron: with both day fields restricted, either one matching is enough
+  const dayMatches = dayOfMonth.any || dayOfWeek.any
+    ? dayOfMonth.values.has(at.getUTCDate()) && (dayOfWeek.values.has(weekday) || (weekday === 0 && dayOfWeek.values.has(7)))
+    : dayOfMonth.values.has(at.getUTCDate()) || dayOfWeek.values.has(weekday) || (weekday === 0 && dayOfWeek.values.has(7))
+
+  return minute.values.has(at.getUTCMinutes()) &&
+    hour.values.has(at.getUTCHours()) &&
+    month.values.has(at.getUTCMonth() + 1) &&
+    dayMatches
+}
+
+export function registerJob(job: ScheduledJob) {
+  jobs.set(job.name, { ...job, fields: parseCronExpression(job.schedule) })
+}
+
+export function getRegisteredJobs(): ScheduledJob[] {
+  return [...jobs.values()].map(({ name, schedule, run }) => ({ name, schedule, run }))
+}
+
+function schedulerBaseUrl() {
+  return (process.env.SCHEDULER_BASE_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '')
+}
+
+// Call a cron route with the cron secret, as Vercel does
+async function callCronRoute(path: string) {
+  const response = await fetch(`${schedulerBaseUrl()}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${process.env.CRON_SECRET}`,
+      'User-Agent': 'slack-presence-scheduler'
+    }
+  })
+  if (!response.ok) {
+    const body = await response.text()
+    throw new Error(`${path} answered ${response.status}: ${body.slice(0, 500)}`)
+  }
+}
+
+// Every cron route in vercel.json, so a new one is picked up without touching this file
+export function registerVercelCrons() {
+  for (const cron of vercelConfig.crons) {
+    registerJob({
+      name: cron.path.split('/').pop()!,
+      schedule: cron.schedule,
+      run: () => callCronRoute(cron.path)
+    })
+  }
+}
+
+// Session-level advisory locks need every query on one connection, so the
+// scheduler keeps its own single connection. It goes direct where possible,
+// since pgbouncer in transaction mode doesn't keep a session.
+function getLockClient() {
+  if (!lockClient) {
+    const url = new URL(process.env.DIRECT_URL || process.env.DATABASE_URL!)
+    url.searchParams.set('connection_limit', '1')
+    url.searchParams.delete('pgbouncer')
+    lockClient = new PrismaClient({ datasources: { db: { url: url.toString() } }, log: ['error'] })
+  }
+  return lockClient
+}
+
+async function tryLockJob(name: string) {
+  const [row] = await getLockClient().$queryRaw<Array<{ locked: boolean }>>`
+    SELECT pg_try_advisory_lock(hashtext(${`scheduler:${name}`})) AS locked
+  `
+  return row.locked
+}
+
+async function unlockJob(name: string) {
+  await getLockClient().$queryRaw`SELECT pg_advisory_unlock(hashtext(${`scheduler:${name}`}))`
+}
+
+// Job state is bookkeeping - failing to write it shouldn't stop the job
+async function recordJobStart(job: RegisteredJob, startedAt: Date) {
+  try {
+    await prisma.jobState.upsert({
+      where: { name: job.name },
+      create: { name: job.name, schedule: job.schedule, lastStatus: 'running', lastStartedAt: startedAt },
+      update: { schedule: job.schedule, lastStatus: 'running', lastStartedAt: startedAt }
+    })
+  } catch (error) {
+    console.error(`❌ Failed to record start of job ${job.name}:`, error)
+  }
+}
+
+async function recordJobFinish(job: RegisteredJob, update: Prisma.JobStateUpdateInput) {
+  try {
+    await prisma.jobState.update({ where: { name: job.name }, data: update })
+  } catch (error) {
+    console.error(`❌ Failed to record outcome of job ${job.name}:`, error)
+  }
+}
+
+// The last outcome of every job that has run, for /api/admin/jobs
+export async function getJobStates() {
+  return prisma.jobState.findMany({ orderBy: { name: 'asc' } })
+}
+
+// Run a registered job now, unless it's already running here or on another instance
+export async function runJob(name: string): Promise<JobRunOutcome> {
+  const job = jobs.get(name)
+  if (!job) {
+    throw new Error(`No job named ${name} is registered`)
+  }
+
+  if (running.has(name)) {
+    console.warn(`⏭️ Job ${name} is still running from an earlier tick, skipping`)
+    return 'overlapping'
+  }
+  running.add(name)
+
+  try {
+    if (!await tryLockJob(name)) {
+      console.log(`⏭️ Job ${name} is running on another instance, skipping`)
+      return 'locked'
+    }
+
+    const startedAt = new Date()
+    try {
+      console.log(`⏰ Running job ${name}`)
+      await recordJobStart(job, startedAt)
+
+      try {
+        await job.run()
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        const finishedAt = new Date()
+        console.error(`❌ Job ${name} failed after ${finishedAt.getTime() - startedAt.getTime()}ms:`, errorMessage)
+        await recordJobFinish(job, {
+          lastStatus: 'failed',
+          lastFinishedAt: finishedAt,
+          lastFailedAt: finishedAt,
+          lastError: errorMessage,
+          lastDurationMs: finishedAt.getTime() - startedAt.getTime(),
+          consecutiveFailures: { increment: 1 }
+        })
+        return 'failed'
+      }
+
+      const finishedAt = new Date()
+      console.log(`✅ Job ${name} succeeded in ${finishedAt.getTime() - startedAt.getTime()}ms`)
+      await recordJobFinish(job, {
+        lastStatus: 'succeeded',
+        lastFinishedAt: finishedAt,
+        lastSucceededAt: finishedAt,
+        lastDurationMs: finishedAt.getTime() - startedAt.getTime(),
+        consecutiveFailures: 0
+      })
+      return 'succeeded'
+    } finally {
+      await unlockJob(name).catch(error => console.error(`❌ Failed to release lock for job ${name}:`, error))
+    }
+  } finally {
+    running.delete(name)
+  }
+}
+
+function tick(at: Date) {
+  for (const job of jobs.values()) {
+    if (!cronMatches(job.fields, at)) continue
+    runJob(job.name).catch(error => {
+      console.error(`❌ Could not run job ${job.name}:`, error)
+    })
+  }
+}
+
+// Tick just after the start of every minute. Registers the vercel.json crons
+// if nothing else has been registered.
+export function startScheduler() {
+  if (tickTimer) return
+  if (!process.env.CRON_SECRET) {
+    console.warn('⚠️ CRON_SECRET is not set - scheduled calls to the cron routes will be rejected')
+  }
+  if (jobs.size === 0) registerVercelCrons()
+
+  const scheduleTick = () => {
+    const delay = 60 * 1000 - (Date.now() % (60 * 1000)) + 500
+    tickTimer = setTimeout(() => {
+      tick(new Date())
+      scheduleTick()
+    }, delay)
+  }
+  scheduleTick()
+
+  console.log(`⏰ Scheduler started with ${jobs.size} jobs: ${[...jobs.values()].map(job => `${job.name} (${job.schedule})`).join(', ')}`)
+}
+
+export async function stopScheduler() {
+  if (tickTimer) clearTimeout(tickTimer)
+  tickTimer = null
+  // Dropping the connection releases any locks still held
+  await lockClient?.$disconnect()
+  lockClient = null
+  console.log('🛑 Scheduler stopped')
+}
@@ -0,0 +1,219 @@
+import crypto from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { applySlackMemberEvent, type SlackMember } from './slack-users'
+import { isCountedMessage, recordMessageActivity } from './message-activity'
+import { dndStatusAt, recordDndObservations } from './dnd'
+import { prismaInstallationStore } from './installation-store'
+import { markWorkspacesUninstalled, revokeSlackTokens } from './credential-health'
+import type { SlackDndStatus } from './slack'
+
+// Slack rejects replays older than five minutes, so we do the same
+const MAX_REQUEST_AGE_SECONDS = 60 * 5
+
+export interface SlackEvent {
+  type: string
+  subtype?: string
+  user?: unknown
+  [key: string]: unknown
+}
+
+export interface SlackEventCallback {
+  type: 'event_callback'
+  token?: string
+  team_id: string
+  enterprise_id?: string
+  api_app_id?: string
+  authorizations?: Array<{ team_id: string | null; enterprise_id: string | null; is_enterprise_install: boolean }>
+  event: SlackEvent
+  event_id: string
+  event_time: number
+}
+
+export interface SlackUrlVerification {
+  type: 'url_verification'
+  token?: string
+  challenge: string
+}
+
+export interface SlackAppRateLimited {
+  type: 'app_rate_limited'
+  team_id: string
+  minute_rate_limited: number
+}
+
+export type SlackEventPayload = SlackEventCallback | SlackUrlVerification | SlackAppRateLimited
+
+export type SlackEventHandler = (event: SlackEvent, envelope: SlackEventCallback) => Promise<void>
+
+export interface SignatureCheck {
+  valid: boolean
+  reason?: string
+}
+
+// Verify X-Slack-Signature against the raw request body
+// See https://api.slack.com/authentication/verifying-requests-from-slack
+export function verifySlackSignature(
+  rawBody: string,
+  timestamp: string | null,
+  signature: string | null,
+  signingSecret: string | undefined = process.env.SLACK_SIGNING_SECRET
+): SignatureCheck {
+  if (!signingSecret) {
+    return { valid: false, reason: 'SLACK_SIGNING_SECRET is not configured' }
+  }
+
+  if (!timestamp || !signature) {
+    return { valid: false, reason: 'Missing signature headers' }
+  }
+
+  const requestTime = parseInt(timestamp, 10)
+  if (Number.isNaN(requestTime)) {
+    return { valid: false, reason: 'Invalid timestamp header' }
+  }
+
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - requestTime)
+  if (ageSeconds > MAX_REQUEST_AGE_SECONDS) {
+    return { valid: false, reason: `Request timestamp is ${ageSeconds}s old` }
+  }
+
+  const expected = 'v0=' + crypto
+    .createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest('hex')
+
+  const expectedBuffer = Buffer.from(expected, 'utf8')
+  const signatureBuffer = Buffer.from(signature, 'utf8')
+
+  if (expectedBuffer.length !== signatureBuffer.length || !crypto.timingSafeEqual(expectedBuffer, signatureBuffer)) {
+    return { valid: false, reason: 'Signature mismatch' }
+  }
+
+  return { valid: true }
+}
+
+// Record an event_id before handling it. Returns false if we've already seen it,
+// which happens when Slack retries a delivery we were slow to acknowledge.
+export async function recordSlackEvent(envelope: SlackEventCallback, retryNum: number): Promise<boolean> {
+  try {
+    await prisma.slackEventReceipt.create({
+      data: {
+        eventId: envelope.event_id,
+        eventType: envelope.event.type,
+        teamId: envelope.team_id,
+        retryNum
+      }
+    })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+// Forget an event so Slack's next retry gets processed again
+export async function releaseSlackEvent(eventId: string) {
+  await prisma.slackEventReceipt.deleteMany({
+    where: { eventId }
+  })
+}
+
+// Profile edits, timezone changes and deactivations (user.deleted) all arrive as user_change
+async function handleUserChange(event: SlackEvent, envelope: SlackEventCallback) {
+  const member = event.user as SlackMember | undefined
+  if (!member?.id) return
+
+  await applySlackMemberEvent(member, member.team_id || envelope.team_id)
+}
+
+async function handleTeamJoin(event: SlackEvent, envelope: SlackEventCallback) {
+  const member = event.user as SlackMember | undefined
+  if (!member?.id) return
+
+  console.log(`👋 team_join for ${member.real_name || member.name || member.id} in team ${envelope.team_id}`)
+  await applySlackMemberEvent(member, member.team_id || envelope.team_id)
+}
+
+// message.channels / .groups / .im / .mpim all arrive with type "message"
+async function handleMessage(event: SlackEvent, envelope: SlackEventCallback) {
+  const message = event as SlackEvent & { user?: string; channel?: string; ts?: string }
+  if (!message.channel || !message.ts || !isCountedMessage(message)) return
+
+  await recordMessageActivity([{
+    slackUserId: message.user!,
+    channelId: message.channel,
+    messageTs: message.ts
+  }], envelope.team_id, 'event')
+}
+
+// dnd_updated_user covers teammates; dnd_updated is the installing user and adds snooze details
+async function handleDndUpdated(event: SlackEvent, envelope: SlackEventCallback) {
+  const update = event as SlackEvent & { user?: string; dnd_status?: SlackDndStatus }
+  if (typeof update.user !== 'string' || !update.dnd_status) return
+
+  const user = await prisma.user.findUnique({
+    where: { slackUserId: update.user },
+    select: { id: true }
+  })
+  if (!user) return
+
+  const observedAt = new Date(envelope.event_time * 1000)
+  await recordDndObservations([{
+    userId: user.id,
+    status: dndStatusAt(update.dnd_status, observedAt),
+    observedAt,
+    source: 'event'
+  }])
+}
+
+// The app was removed from a workspace (or from the whole org, for an org-wide
+// install), so its tokens are dead and the installation goes too
+async function handleAppUninstalled(event: SlackEvent, envelope: SlackEventCallback) {
+  const isEnterpriseInstall = envelope.authorizations?.[0]?.is_enterprise_install ?? false
+
+  console.log(`👋 app_uninstalled for ${isEnterpriseInstall ? `enterprise ${envelope.enterprise_id}` : `team ${envelope.team_id}`}`)
+
+  const orgInstallation = isEnterpriseInstall && envelope.enterprise_id
+    ? await prisma.installation.findFirst({ where: { enterpriseId: envelope.enterprise_id, isEnterpriseInstall: true } })
+    : null
+  await prismaInstallationStore.deleteInstallation({
+    teamId: envelope.team_id,
+    enterpriseId: envelope.enterprise_id,
+    isEnterpriseInstall
+  })
+  await markWorkspacesUninstalled(orgInstallation ? orgInstallation.workspaceIds : [envelope.team_id])
+}
+
+// Someone revoked their authorization, or an admin revoked the bot. Clear those
+// tokens and switch the workspace to another one that still works.
+async function handleTokensRevoked(event: SlackEvent, envelope: SlackEventCallback) {
+  const { tokens } = event as SlackEvent & { tokens?: { oauth?: string[]; bot?: string[] } }
+  if (!tokens) return
+
+  await revokeSlackTokens(envelope.team_id, tokens)
+}
+
+const eventHandlers: Record<string, SlackEventHandler> = {
+  user_change: handleUserChange,
+  team_join: handleTeamJoin,
+  message: handleMessage,
+  dnd_updated: handleDndUpdated,
+  dnd_updated_user: handleDndUpdated,
+  app_uninstalled: handleAppUninstalled,
+  tokens_revoked: handleTokensRevoked
+}
+
+// Route an event to its handler. Unknown event types are acknowledged and ignored.
+export async function dispatchSlackEvent(envelope: SlackEventCallback): Promise<boolean> {
+  const handler = eventHandlers[envelope.event.type]
+
+  if (!handler) {
+    console.log(`ℹ️ No handler for Slack event type: ${envelope.event.type}`)
+    return false
+  }
+
+  await handler(envelope.event, envelope)
+  return true
+}
@@ -0,0 +1,243 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { recordCustomStatus, type StatusSource } from './status-history'
+
+export interface SlackMember {
+  id: string
+  team_id?: string
+  deleted?: boolean
+  is_restricted?: boolean
+  is_ultra_restricted?: boolean
+  is_bot?: boolean
+  real_name?: string
+  name?: string
+  profile?: {
+    email?: string
+    image_192?: string
+    display_name?: string
+    status_text?: string
+    status_emoji?: string
+    status_expiration?: number
+    title?: string
+  }
+  tz?: string
+  is_admin?: boolean
+  is_owner?: boolean
+}
+
+export interface SlackMemberSyncResult {
+  userId: string
+  action: 'created' | 'updated'
+  name: string
+  timezone: string | null
+}
+
+// Guests, bots (other than our own) and Slackbot are never tracked
+export function isTrackableMember(member: SlackMember): boolean {
+  const shouldSkip = member.deleted ||
+    member.is_restricted ||
+    member.is_ultra_restricted ||
+    (member.is_bot && member.name !== 'team analytics') ||
+    member.id === 'USLACKBOT'
+
+  return !shouldSkip
+}
+
+// User.metadata as an object, whatever is stored (null, or something odd left by hand)
+export function userMetadata(metadata: Prisma.JsonValue | null): Prisma.JsonObject {
+  return metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {}
+}
+
+// Map a Slack member onto the columns of the users table
+export function toUserData(member: SlackMember, slackTeamId: string | null) {
+  return {
+    slackUserId: member.id,
+    name: member.real_name || member.name || 'Unknown',
+    email: member.profile?.email || '',
+    avatarUrl: member.profile?.image_192 || '',
+    timezone: member.tz || null,
+    slackTeamId,
+    // Listed again, so anyone who was marked inactive is tracked again
+    isActive: true,
+    inactiveSince: null,
+    isAdmin: !!member.is_admin,
+    isOwner: !!member.is_owner,
+    title: member.profile?.title || null,
+    displayName: member.profile?.display_name || null,
+    metadata: {
+      syncedAt: new Date().toISOString()
+    }
+  }
+}
+
+// Keep the custom status history in step with the member's profile. A failure here
+// shouldn't fail the sync or event that carried the profile.
+async function recordMemberStatus(userId: string, member: SlackMember, source: StatusSource) {
+  if (!member.profile) return
+
+  try {
+    const result = await recordCustomStatus(userId, {
+      text: member.profile.status_text || '',
+      emoji: member.profile.status_emoji || '',
+      expiration: member.profile.status_expiration
+    }, new Date(), source)
+
+    if (result === 'changed') {
+      console.log(`💬 Custom status for ${member.real_name || member.name || member.id}: ${member.profile.status_emoji || ''} ${member.profile.status_text || '(cleared)'}`)
+    }
+  } catch (error) {
+    console.error(`❌ Failed to record custom status for ${member.id}:`, error)
+  }
+}
+
+// Create or update the user row for a Slack member. Existing metadata keys
+// (connection timestamps, team name) are kept.
+export async function upsertSlackMember(
+  member: SlackMember,
+  slackTeamId: string | null,
+  source: StatusSource = 'sync'
+): Promise<SlackMemberSyncResult> {
+  const existingUser = await prisma.user.findUnique({
+    where: { slackUserId: member.id }
+  })
+
+  const userData = toUserData(member, slackTeamId)
+
+  if (existingUser) {
+    // Update existing user (but preserve access token if they have one)
+    await prisma.user.update({
+      where: { id: existingUser.id },
+      data: {
+        name: userData.name,
+        email: userData.email || existingUser.email,
+        avatarUrl: userData.avatarUrl || existingUser.avatarUrl,
+        timezone: userData.timezone || existingUser.timezone,
+        slackTeamId: existingUser.slackTeamId || slackTeamId,
+        isActive: userData.isActive,
+        inactiveSince: userData.inactiveSince,
+        isAdmin: userData.isAdmin,
+        isOwner: userData.isOwner,
+        title: userData.title,
+        displayName: userData.displayName,
+        metadata: {
+          ...userMetadata(existingUser.metadata),
+          ...userData.metadata
+        }
+      }
+    })
+    await recordMemberStatus(existingUser.id, member, source)
+    return { userId: existingUser.id, action: 'updated', name: userData.name, timezone: userData.timezone }
+  }
+
+  // Create new user (without access token - they'll need to sign in to get presence monitoring)
+  const newUser = await prisma.user.create({
+    data: userData
+  })
+  await recordMemberStatus(newUser.id, member, source)
+  return { userId: newUser.id, action: 'created', name: userData.name, timezone: userData.timezone }
+}
+
+// Mark a user inactive (don't delete, in case they come back)
+export async function markUserInactive(user: { id: string; isActive: boolean }) {
+  if (!user.isActive) return false
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      isActive: false,
+      inactiveSince: new Date()
+    }
+  })
+  return true
+}
+
+// Apply a user object delivered by a user_change or team_join event
+export async function applySlackMemberEvent(member: SlackMember, slackTeamId: string | null) {
+  if (isTrackableMember(member)) {
+    const result = await upsertSlackMember(member, slackTeamId, 'event')
+    console.log(`${result.action === 'created' ? 'Created' : 'Updated'} user from event: ${result.name} (${result.timezone || 'no timezone'})`)
+    return result
+  }
+
+  // Deactivated, converted to a guest, etc. - stop tracking if we knew about them
+  const existingUser = await prisma.user.findUnique({
+    where: { slackUserId: member.id },
+    select: { id: true, name: true, isActive: true }
+  })
+
+  if (existingUser && await markUserInactive(existingUser)) {
+    console.log(`Marked user as inactive from event: ${existingUser.name} (${member.id})`)
+  }
+
+  return null
+}
+
+export interface WorkspaceSyncResult {
+  slackTeamId: string
+  total: number
+  created: number
+  updated: number
+  errors: number
+  markedInactive: number
+  errorDetails: Array<{ userId: string; error: string }>
+}
+
+// Upsert a workspace's members from users.list and mark anyone from that
+// workspace who's no longer listed as inactive
+export async function syncWorkspaceMembers(members: SlackMember[], slackTeamId: string): Promise<WorkspaceSyncResult> {
+  // Filter active users first to reduce noise in logs
+  const activeMembers = members.filter(isTrackableMember)
+
+  console.log(`Processing ${activeMembers.length} active users in ${slackTeamId} (skipped ${members.length - activeMembers.length} inactive users)`)
+
+  // Process users in batches to avoid overwhelming the database connection pool
+  const batchSize = 5
+  const results = []
+
+  for (let i = 0; i < activeMembers.length; i += batchSize) {
+    const batch = activeMembers.slice(i, i + batchSize)
+    console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(activeMembers.length / batchSize)}`)
+
+    const batchPromises = batch.map(async (member) => {
+      try {
+        const result = await upsertSlackMember(member, slackTeamId)
+        console.log(`${result.action === 'created' ? 'Created' : 'Updated'} user: ${result.name} (${result.timezone || 'no timezone'})`)
+        return result
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        console.error(`Error processing user ${member.name} (${member.id}):`, error)
+        return { userId: member.id, action: 'error' as const, error: errorMessage }
+      }
+    })
+
+    // Wait for this batch to complete before moving to the next
+    results.push(...await Promise.all(batchPromises))
+  }
+
+  // Clean up users who are no longer in the Slack workspace
+  const inactiveUsers = await prisma.user.findMany({
+    where: {
+      slackUserId: { notIn: activeMembers.map(member => member.id) },
+      slackTeamId,
+      isActive: true
+    }
+  })
+
+  let markedInactive = 0
+  await Promise.all(inactiveUsers.map(async (inactiveUser) => {
+    if (await markUserInactive(inactiveUser)) {
+      markedInactive++
+      console.log(`Marked user as inactive: ${inactiveUser.name} (${inactiveUser.slackUserId})`)
+    }
+  }))
+
+  return {
+    slackTeamId,
+    total: results.length,
+    created: results.filter(result => result.action === 'created').length,
+    updated: results.filter(result => result.action === 'updated').length,
+    errors: results.filter(result => result.action === 'error').length,
+    markedInactive,
+    errorDetails: results.flatMap(result => 'error' in result ? [{ userId: result.userId, error: result.error }] : [])
+  }
+}
@@ -1,4 +1,50 @@
-import { WebClient } from '@slack/web-api'
+import crypto from 'crypto'
+import { prisma } from './db'
+import type { SlackMember } from './slack-users'
+import { openToken } from './token-crypto'
+
+// Single gateway for every Slack Web API call the app makes. It keeps each method
+// inside its rate-limit tier, honours Retry-After on HTTP 429, bounds how many
+// requests are in flight at once and records rate-limit hits for the dashboard.
+// Tokens arrive sealed (see token-crypto.ts) and are only decrypted here.
+
+// Every Slack call goes here. Point SLACK_API_BASE_URL at the local stand-in
+// (npm run slack-api-standin) to run the app end to end without Slack.
+export const SLACK_API_BASE_URL = (process.env.SLACK_API_BASE_URL || 'https://slack.com/api').replace(/\/+$/, '')
+
+// Slack pages outside the Web API, such as the OAuth authorize screen, on the same host
+export function slackWebUrl(path: string) {
+  return new URL(path, SLACK_API_BASE_URL).toString()
+}
+
+// Requests per minute for each tier - https://api.slack.com/apis/rate-limits
+const TIER_LIMITS = {
+  1: 1,
+  2: 20,
+  3: 50,
+  4: 100
+} as const
+
+type SlackTier = keyof typeof TIER_LIMITS
+
+const METHOD_TIERS: Record<string, SlackTier> = {
+  'auth.test': 4,
+  'auth.teams.list': 2,
+  'oauth.v2.access': 4,
+  'users.info': 4,
+  'users.list': 2,
+  'users.getPresence': 3,
+  'conversations.list': 2,
+  'conversations.history': 3,
+  'rtm.connect': 1,
+  'dnd.teamInfo': 2
+}
+
+const MAX_CONCURRENT_REQUESTS = parseInt(process.env.SLACK_API_CONCURRENCY || '5')
+const MAX_RETRIES = 3
+
+// Never sleep longer than this inside a request - serverless functions have a time limit
+const DEFAULT_MAX_WAIT_MS = 20 * 1000
 
 export interface SlackUser {
   id: string
@@ -6,6 +52,7 @@ export interface SlackUser {
   real_name: string
   profile: {
     email?: string
+    image_192?: string
     image_512?: string
   }
   tz?: string
@@ -13,36 +60,388 @@ export interface SlackUser {
 
 export interface SlackPresence {
   presence: 'active' | 'away'
-  online: boolean
-  auto_away: boolean
-  manual_away: boolean
-  connection_count: number
-  last_activity: number
+  online?: boolean
+  auto_away?: boolean
+  manual_away?: boolean
+  connection_count?: number
+  last_activity?: number
 }
 
-export async function getTeamUsers(userAccessToken: string): Promise<SlackUser[]> {
-  try {
-    const client = new WebClient(userAccessToken)
-    const result = await client.users.list({})
-    
-    return (result.members as SlackUser[]) || []
-  } catch (error) {
-    console.error('Error fetching team users:', error)
-    return []
+// Snooze fields only come back for the token's own user
+export interface SlackDndStatus {
+  dnd_enabled: boolean
+  next_dnd_start_ts: number
+  next_dnd_end_ts: number
+  snooze_enabled?: boolean
+  snooze_endtime?: number
+}
+
+export interface SlackHistoryMessage {
+  type: string
+  subtype?: string
+  user?: string
+  ts: string
+  thread_ts?: string
+}
+
+export interface SlackHistoryPage {
+  messages: SlackHistoryMessage[]
+  nextCursor: string | null
+  hasMore: boolean
+}
+
+export interface SlackConversation {
+  id: string
+  name?: string
+  is_private?: boolean
+  is_archived?: boolean
+  is_member?: boolean
+  is_im?: boolean
+  is_mpim?: boolean
+  user?: string
+}
+
+interface SlackResponseMetadata {
+  response_metadata?: {
+    next_cursor?: string
+    warnings?: string[]
+  }
+}
+
+// Request parameters and response body for each method we call
+export interface SlackMethods {
+  'auth.test': {
+    params: Record<string, never>
+    response: { user_id: string; user: string; team_id: string; team: string; url?: string; bot_id?: string }
+  }
+  'auth.teams.list': {
+    params: { cursor?: string; limit?: number }
+    response: { teams: Array<{ id: string; name?: string }> } & SlackResponseMetadata
+  }
+  'oauth.v2.access': {
+    params: { client_id: string; client_secret: string; code: string; redirect_uri?: string }
+    response: {
+      access_token?: string
+      token_type?: string
+      scope?: string
+      bot_user_id?: string
+      app_id?: string
+      team?: { id: string; name?: string }
+      enterprise?: { id: string; name?: string } | null
+      is_enterprise_install?: boolean
+      authed_user?: { id: string; scope?: string; access_token?: string; token_type?: string }
+    }
+  }
+  'users.info': {
+    params: { user: string }
+    response: { user: SlackMember & SlackUser }
+  }
+  'users.list': {
+    // team_id is required with org-wide tokens
+    params: { cursor?: string; limit?: number; team_id?: string }
+    response: { members: SlackMember[] } & SlackResponseMetadata
+  }
+  'users.getPresence': {
+    params: { user: string }
+    response: SlackPresence
+  }
+  'conversations.list': {
+    params: { cursor?: string; types?: string; exclude_archived?: boolean; limit?: number }
+    response: { channels: SlackConversation[] } & SlackResponseMetadata
+  }
+  'conversations.history': {
+    params: { channel: string; cursor?: string; oldest?: string; latest?: string; limit?: number }
+    response: { messages: SlackHistoryMessage[]; has_more?: boolean } & SlackResponseMetadata
+  }
+  'rtm.connect': {
+    params: { batch_presence_aware?: boolean; presence_sub?: boolean }
+    response: { url: string; self: { id: string; name: string }; team: { id: string; domain?: string; name?: string } }
+  }
+  'dnd.teamInfo': {
+    params: { users: string }
+    response: { users: Record<string, SlackDndStatus> }
+  }
+}
+
+export type SlackMethod = keyof SlackMethods
+
+export type SlackApiResponse<M extends SlackMethod> = SlackMethods[M]['response'] & {
+  ok: true
+  warning?: string
+}
+
+export interface SlackCallOptions {
+  // Longest we're willing to wait for budget or Retry-After before giving up
+  maxWaitMs?: number
+  // The workspace the call is for, so a rate limit shows on that workspace's dashboard only
+  slackTeamId?: string | null
+}
+
+export class SlackApiError extends Error {
+  constructor(public method: string, public code: string, public status?: number) {
+    super(code)
+    this.name = 'SlackApiError'
+  }
+}
+
+export class SlackRateLimitError extends SlackApiError {
+  constructor(method: string, public retryAfterSeconds: number) {
+    super(method, 'ratelimited', 429)
+    this.name = 'SlackRateLimitError'
+  }
+}
+
+// Per-method, per-token sliding window of recent request times
+const requestWindows = new Map<string, number[]>()
+
+// Methods currently backing off after a 429, keyed the same way
+const blockedUntil = new Map<string, number>()
+
+let activeRequests = 0
+const waitingForSlot: Array<() => void> = []
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function budgetKey(method: string, token: string | null) {
+  const tokenKey = token ? crypto.createHash('sha256').update(token).digest('hex').slice(0, 12) : 'anonymous'
+  return `${method}:${tokenKey}`
+}
+
+// How long until this method has room in its per-minute budget
+function msUntilBudget(key: string, method: string) {
+  const now = Date.now()
+  const limit = TIER_LIMITS[METHOD_TIERS[method] ?? 3]
+  const window = (requestWindows.get(key) || []).filter(time => now - time < 60 * 1000)
+  requestWindows.set(key, window)
+
+  const blockedMs = Math.max(0, (blockedUntil.get(key) || 0) - now)
+  const budgetMs = window.length < limit ? 0 : window[0] + 60 * 1000 - now
+
+  return Math.max(blockedMs, budgetMs)
+}
+
+// Wait for room in the method's budget and claim it in the same synchronous step
+// as the check, so calls started together (a Promise.all over users.getPresence)
+// can't all pass against the same empty window
+async function reserveBudget(key: string, method: string, maxWaitMs: number) {
+  const deadline = Date.now() + maxWaitMs
+  for (;;) {
+    const waitMs = msUntilBudget(key, method)
+    if (waitMs === 0) {
+      requestWindows.get(key)!.push(Date.now())
+      return
+    }
+    if (waitMs > deadline - Date.now()) {
+      throw new SlackRateLimitError(method, Math.ceil(waitMs / 1000))
+    }
+    await sleep(waitMs)
+  }
+}
+
+async function acquireSlot() {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++
+    return
   }
+  await new Promise<void>(resolve => waitingForSlot.push(resolve))
+  activeRequests++
+}
+
+function releaseSlot() {
+  activeRequests--
+  waitingForSlot.shift()?.()
 }
 
-export async function getUserPresence(userId: string, userAccessToken: string): Promise<SlackPresence | null> {
+// Persist rate-limit hits so the dashboard can tell users why data is stale
+export async function reportRateLimit(method: string, retryAfterSeconds: number, slackTeamId: string | null = null) {
+  console.warn(`⚠️ Slack rate limited ${method}${slackTeamId ? ` for ${slackTeamId}` : ''} - retry after ${retryAfterSeconds}s`)
   try {
-    const client = new WebClient(userAccessToken)
-    
-    const result = await client.users.getPresence({
-      user: userId,
+    await prisma.slackRateLimitEvent.create({
+      data: { method, retryAfterSeconds, slackTeamId }
     })
-    
-    return result as SlackPresence
   } catch (error) {
-    console.error(`Error fetching presence for user ${userId}:`, error)
-    return null
+    console.error('❌ Failed to record Slack rate limit event:', error)
+  }
+}
+
+// Most recent rate limit on a workspace's calls that is still in effect (or ended
+// within the grace period)
+export async function getActiveRateLimit(slackTeamId: string, graceMs: number = 5 * 60 * 1000) {
+  const recent = await prisma.slackRateLimitEvent.findFirst({
+    where: { slackTeamId, occurredAt: { gte: new Date(Date.now() - 60 * 60 * 1000) } },
+    orderBy: { occurredAt: 'desc' }
+  })
+
+  if (!recent) return null
+
+  const limitedUntil = new Date(recent.occurredAt.getTime() + recent.retryAfterSeconds * 1000)
+  if (limitedUntil.getTime() + graceMs < Date.now()) return null
+
+  return { method: recent.method, occurredAt: recent.occurredAt, limitedUntil }
+}
+
+function encodeParams(params: Record<string, unknown>) {
+  const body = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      body.append(key, String(value))
+    }
+  })
+  return body
+}
+
+// Call a Slack Web API method with a sealed token. Throws SlackApiError when Slack
+// answers ok: false and SlackRateLimitError when the rate limit can't be waited out in time.
+export async function slackApi<M extends SlackMethod>(
+  method: M,
+  sealedToken: string | null,
+  params: SlackMethods[M]['params'],
+  options: SlackCallOptions = {}
+): Promise<SlackApiResponse<M>> {
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS
+  const token = sealedToken ? openToken(sealedToken) : null
+  const key = budgetKey(method, token)
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    await reserveBudget(key, method, maxWaitMs)
+
+    await acquireSlot()
+    let response: Response
+    try {
+      response = await fetch(`${SLACK_API_BASE_URL}/${method}`, {
+        method: 'POST',
+        headers: {
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: encodeParams(params)
+      })
+    } finally {
+      releaseSlot()
+    }
+
+    if (response.status === 429) {
+      const retryAfterSeconds = parseInt(response.headers.get('retry-after') || '60', 10) || 60
+      blockedUntil.set(key, Date.now() + retryAfterSeconds * 1000)
+      await reportRateLimit(method, retryAfterSeconds, options.slackTeamId)
+
+      if (attempt === MAX_RETRIES || retryAfterSeconds * 1000 > maxWaitMs) {
+        throw new SlackRateLimitError(method, retryAfterSeconds)
+      }
+      continue
+    }
+
+    if (!response.ok) {
+      throw new SlackApiError(method, `http_${response.status}`, response.status)
+    }
+
+    const data = await response.json()
+    if (!data.ok) {
+      if (data.error === 'ratelimited') {
+        await reportRateLimit(method, 60, options.slackTeamId)
+        throw new SlackRateLimitError(method, 60)
+      }
+      throw new SlackApiError(method, data.error || 'unknown_error', response.status)
+    }
+
+    return data as SlackApiResponse<M>
   }
-}
\ No newline at end of file
+
+  throw new SlackRateLimitError(method, 60)
+}
+
+// Every member of the workspace, following users.list cursors
+export async function getAllTeamMembers(token: string, teamId?: string): Promise<SlackMember[]> {
+  const members: SlackMember[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await slackApi('users.list', token, { cursor, limit: 200, team_id: teamId }, { maxWaitMs: 60 * 1000, slackTeamId: teamId })
+    members.push(...page.members)
+    cursor = page.response_metadata?.next_cursor || undefined
+  } while (cursor)
+
+  return members
+}
+
+// Workspaces an org-wide token can act in, following auth.teams.list cursors
+export async function getOrgWorkspaces(token: string): Promise<Array<{ id: string; name?: string }>> {
+  const teams: Array<{ id: string; name?: string }> = []
+  let cursor: string | undefined
+
+  do {
+    const page = await slackApi('auth.teams.list', token, { cursor, limit: 100 }, { maxWaitMs: 60 * 1000 })
+    teams.push(...page.teams)
+    cursor = page.response_metadata?.next_cursor || undefined
+  } while (cursor)
+
+  return teams
+}
+
+export async function getUserPresence(userId: string, token: string, slackTeamId?: string): Promise<SlackApiResponse<'users.getPresence'>> {
+  return slackApi('users.getPresence', token, { user: userId }, { slackTeamId })
+}
+
+// dnd.teamInfo accepts at most 50 users per call
+const DND_TEAM_INFO_BATCH = 50
+
+// DND status for any number of users, keyed by Slack user id
+export async function getTeamDndInfo(userIds: string[], token: string, slackTeamId?: string): Promise<Record<string, SlackDndStatus>> {
+  const statuses: Record<string, SlackDndStatus> = {}
+
+  for (let i = 0; i < userIds.length; i += DND_TEAM_INFO_BATCH) {
+    const batch = userIds.slice(i, i + DND_TEAM_INFO_BATCH)
+    const result = await slackApi('dnd.teamInfo', token, { users: batch.join(',') }, { slackTeamId })
+    Object.assign(statuses, result.users)
+  }
+
+  return statuses
+}
+
+// Fetch one page of conversations.history. Only the fields we keep are returned;
+// message text comes back from Slack but is never read or stored.
+export async function getConversationHistoryPage(
+  channelId: string,
+  accessToken: string,
+  options: { cursor?: string; oldest?: string; latest?: string; limit?: number; slackTeamId?: string } = {}
+): Promise<SlackHistoryPage> {
+  const result = await slackApi('conversations.history', accessToken, {
+    channel: channelId,
+    cursor: options.cursor,
+    oldest: options.oldest,
+    latest: options.latest,
+    limit: options.limit ?? 200,
+  }, { slackTeamId: options.slackTeamId })
+
+  return {
+    messages: (result.messages || []).map(message => ({
+      type: message.type,
+      subtype: message.subtype,
+      user: message.user,
+      ts: message.ts,
+      thread_ts: message.thread_ts,
+    })),
+    nextCursor: result.response_metadata?.next_cursor || null,
+    hasMore: !!result.has_more,
+  }
+}
+
+// Fetch one page of conversations.list
+export async function getConversationsPage(
+  accessToken: string,
+  options: { cursor?: string; types?: string; limit?: number; slackTeamId?: string } = {}
+): Promise<{ channels: SlackConversation[]; nextCursor: string | null }> {
+  const result = await slackApi('conversations.list', accessToken, {
+    cursor: options.cursor,
+    types: options.types ?? 'public_channel,private_channel,mpim,im',
+    exclude_archived: true,
+    limit: options.limit ?? 200,
+  }, { slackTeamId: options.slackTeamId })
+
+  return {
+    channels: result.channels || [],
+    nextCursor: result.response_metadata?.next_cursor || null,
+  }
+}
@@ -10,15 +10,12 @@ export async function autoStartMessageSync() {
     // Get all users with access tokens
     const users = await prisma.user.findMany({
       where: {
-        slackAccessToken: {
-          not: null
-        }
+        hasSlackToken: true
       },
       select: {
         id: true,
         slackUserId: true,
         slackTeamId: true,
-        slackAccessToken: true,
         name: true
       }
     })
@@ -29,15 +26,16 @@ export async function autoStartMessageSync() {
       console.log(`Starting message sync for user: ${user.name || user.slackUserId}`)
       
       // Make a POST request to the sync endpoint
+      // The endpoint looks the token up itself, so it never travels in the request body
       const response = await fetch('http://localhost:3000/api/sync/messages', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.CRON_SECRET}`,
         },
         body: JSON.stringify({
           userId: user.slackUserId,
-          teamId: user.slackTeamId,
-          accessToken: user.slackAccessToken
+          teamId: user.slackTeamId
         })
       })
 
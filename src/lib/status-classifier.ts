@@ -0,0 +1,175 @@
+import { prisma } from './db'
+import type { StatusSpan } from './status-history'
+
+// Rule-based classification of custom statuses ("📅 In a meeting", "🍔 Lunch",
+// "🤒 Out sick") into categories. Workspaces can add their own emoji and keyword
+// rules; those are checked before the built-in ones.
+
+export const STATUS_CATEGORIES = ['meeting', 'lunch', 'pto', 'sick', 'commuting'] as const
+
+export type StatusCategory = typeof STATUS_CATEGORIES[number]
+
+export type StatusMatchType = 'emoji' | 'keyword'
+
+export interface StatusClassifierRule {
+  category: StatusCategory
+  matchType: StatusMatchType
+  // An emoji shortcode (":palm_tree:") or a word/phrase matched on word boundaries
+  pattern: string
+}
+
+// Categories that mean the user isn't working that day
+export const TIME_OFF_CATEGORIES: StatusCategory[] = ['pto', 'sick']
+
+function rules(category: StatusCategory, matchType: StatusMatchType, patterns: string[]): StatusClassifierRule[] {
+  return patterns.map(pattern => ({ category, matchType, pattern }))
+}
+
+// Slack's suggested statuses plus the usual variations
+export const DEFAULT_STATUS_RULES: StatusClassifierRule[] = [
+  ...rules('sick', 'emoji', [':face_with_thermometer:', ':thermometer:', ':mask:', ':sneezing_face:', ':nauseated_face:']),
+  ...rules('pto', 'emoji', [':palm_tree:', ':beach_with_umbrella:', ':desert_island:']),
+  ...rules('meeting', 'emoji', [':spiral_calendar_pad:', ':calendar:', ':date:', ':busts_in_silhouette:']),
+  ...rules('lunch', 'emoji', [':hamburger:', ':fork_and_knife:', ':knife_fork_plate:', ':sandwich:', ':pizza:', ':ramen:']),
+  ...rules('commuting', 'emoji', [':bus:', ':train:', ':train2:', ':metro:', ':car:', ':red_car:', ':blue_car:', ':bike:', ':bicyclist:']),
+  ...rules('sick', 'keyword', ['sick', 'out sick', 'unwell', 'ill', 'sick leave']),
+  ...rules('pto', 'keyword', ['pto', 'vacation', 'vacationing', 'holiday', 'out of office', 'ooo', 'on leave', 'parental leave', 'day off']),
+  ...rules('meeting', 'keyword', ['meeting', 'in a call', 'on a call', 'zoom', 'huddle', 'interview', '1:1']),
+  ...rules('lunch', 'keyword', ['lunch', 'breakfast', 'dinner', 'eating']),
+  ...rules('commuting', 'keyword', ['commuting', 'commute', 'driving', 'in transit', 'on my way'])
+]
+
+export function isStatusCategory(value: unknown): value is StatusCategory {
+  return typeof value === 'string' && (STATUS_CATEGORIES as readonly string[]).includes(value)
+}
+
+function keywordMatches(text: string, keyword: string) {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|\\W)${escaped}(\\W|$)`, 'i').test(text)
+}
+
+function ruleMatches(rule: StatusClassifierRule, status: { statusText: string; statusEmoji: string }) {
+  return rule.matchType === 'emoji'
+    ? status.statusEmoji === rule.pattern
+    : keywordMatches(status.statusText, rule.pattern)
+}
+
+// The category a status belongs to, or null. Within each rule set the emoji wins
+// over the text, so "🌴 back Monday, ping me for meetings" is PTO.
+export function classifyStatus(
+  status: { statusText: string; statusEmoji: string },
+  workspaceRules: StatusClassifierRule[] = []
+): StatusCategory | null {
+  for (const ruleSet of [workspaceRules, DEFAULT_STATUS_RULES]) {
+    for (const matchType of ['emoji', 'keyword'] as const) {
+      const match = ruleSet.find(rule => rule.matchType === matchType && ruleMatches(rule, status))
+      if (match) return match.category
+    }
+  }
+  return null
+}
+
+// Workspace rules for a set of Slack teams, keyed by team id
+export async function getStatusRulesByTeam(slackTeamIds: Array<string | null>) {
+  const teamIds = [...new Set(slackTeamIds.filter((teamId): teamId is string => !!teamId))]
+  const rows = teamIds.length > 0
+    ? await prisma.statusRule.findMany({
+      where: { slackTeamId: { in: teamIds } },
+      orderBy: { createdAt: 'asc' }
+    })
+    : []
+
+  const rulesByTeam = new Map<string, StatusClassifierRule[]>()
+  rows.forEach(row => {
+    if (!isStatusCategory(row.category)) return
+    if (!rulesByTeam.has(row.slackTeamId)) {
+      rulesByTeam.set(row.slackTeamId, [])
+    }
+    rulesByTeam.get(row.slackTeamId)!.push({
+      category: row.category,
+      matchType: row.matchType === 'emoji' ? 'emoji' : 'keyword',
+      pattern: row.pattern
+    })
+  })
+
+  return rulesByTeam
+}
+
+export async function getStatusRules(slackTeamId: string | null) {
+  return (await getStatusRulesByTeam([slackTeamId])).get(slackTeamId || '') || []
+}
+
+// Emoji rules are stored as shortcodes and keywords in lower case, so the
+// unique (team, type, pattern) constraint catches duplicates
+export function normalizeRulePattern(matchType: StatusMatchType, pattern: string) {
+  const trimmed = pattern.trim().toLowerCase()
+  if (matchType === 'emoji') {
+    return `:${trimmed.replace(/^:+|:+$/g, '')}:`
+  }
+  return trimmed
+}
+
+export async function setStatusRule(slackTeamId: string, rule: StatusClassifierRule) {
+  const pattern = normalizeRulePattern(rule.matchType, rule.pattern)
+  if (pattern === '' || pattern === '::') {
+    throw new Error('pattern must not be empty')
+  }
+
+  return prisma.statusRule.upsert({
+    where: { slackTeamId_matchType_pattern: { slackTeamId, matchType: rule.matchType, pattern } },
+    create: { slackTeamId, category: rule.category, matchType: rule.matchType, pattern },
+    update: { category: rule.category }
+  })
+}
+
+export async function deleteStatusRule(slackTeamId: string, matchType: StatusMatchType, pattern: string) {
+  const { count } = await prisma.statusRule.deleteMany({
+    where: { slackTeamId, matchType, pattern: normalizeRulePattern(matchType, pattern) }
+  })
+  return count > 0
+}
+
+// Minutes of [start, end) spent in each category. Statuses that are still set
+// count up to now.
+export function statusCategoryMinutes(
+  spans: StatusSpan[],
+  workspaceRules: StatusClassifierRule[],
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): Partial<Record<StatusCategory, number>> {
+  const msByCategory = new Map<StatusCategory, number>()
+
+  for (const span of spans) {
+    const category = classifyStatus(span, workspaceRules)
+    if (!category) continue
+
+    const from = Math.max(span.startedAt.getTime(), start.getTime())
+    const to = Math.min((span.endedAt ?? now).getTime(), end.getTime(), now.getTime())
+    if (to <= from) continue
+
+    msByCategory.set(category, (msByCategory.get(category) || 0) + to - from)
+  }
+
+  const minutes: Partial<Record<StatusCategory, number>> = {}
+  msByCategory.forEach((ms, category) => {
+    minutes[category] = Math.round(ms / (60 * 1000))
+  })
+  return minutes
+}
+
+// A day counts as time off when a PTO or sick status covered at least half of it
+// (or half of it so far, for today). Setting 🌴 at 5pm before a holiday doesn't
+// make that afternoon a day off.
+export function isTimeOffDay(
+  categoryMinutes: Partial<Record<StatusCategory, number>>,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+) {
+  const elapsedMinutes = (Math.min(end.getTime(), now.getTime()) - start.getTime()) / (60 * 1000)
+  if (elapsedMinutes <= 0) return false
+
+  const timeOffMinutes = TIME_OFF_CATEGORIES.reduce((sum, category) => sum + (categoryMinutes[category] || 0), 0)
+  return timeOffMinutes >= elapsedMinutes / 2
+}
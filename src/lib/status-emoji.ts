@@ -0,0 +1,36 @@
+// Slack sends status emoji as shortcodes. Only the ones people commonly use for
+// a status are mapped; anything else (including custom emoji) shows as its shortcode.
+const STATUS_EMOJI: Record<string, string> = {
+  ':palm_tree:': '🌴',
+  ':face_with_thermometer:': '🤒',
+  ':thermometer:': '🌡️',
+  ':house:': '🏠',
+  ':house_with_garden:': '🏡',
+  ':spiral_calendar_pad:': '🗓️',
+  ':calendar:': '📆',
+  ':bus:': '🚌',
+  ':car:': '🚗',
+  ':airplane:': '✈️',
+  ':hamburger:': '🍔',
+  ':coffee:': '☕',
+  ':headphones:': '🎧',
+  ':headphone:': '🎧',
+  ':computer:': '💻',
+  ':speech_balloon:': '💬',
+  ':no_entry:': '⛔',
+  ':no_entry_sign:': '🚫',
+  ':zzz:': '💤',
+  ':baby:': '👶',
+  ':hospital:': '🏥',
+  ':beach_with_umbrella:': '🏖️',
+  ':mountain:': '⛰️',
+  ':tada:': '🎉',
+  ':books:': '📚',
+  ':red_circle:': '🔴',
+  ':large_green_circle:': '🟢',
+  ':eyes:': '👀'
+}
+
+export function statusEmoji(shortcode: string): string {
+  return STATUS_EMOJI[shortcode] || shortcode
+}
@@ -0,0 +1,143 @@
+import { prisma } from './db'
+
+// Keeps every custom status a user sets, rather than only the one on their
+// current profile. Fed by user_change events and by diffs spotted during user sync.
+
+export type StatusSource = 'event' | 'sync'
+
+export interface CustomStatus {
+  text: string
+  emoji: string
+  // Slack's status_expiration: unix seconds, 0 when the status doesn't expire
+  expiration?: number
+}
+
+export interface StatusSpan {
+  statusText: string
+  statusEmoji: string
+  expiresAt: Date | null
+  startedAt: Date
+  endedAt: Date | null
+}
+
+function expirationDate(status: CustomStatus): Date | null {
+  return status.expiration ? new Date(status.expiration * 1000) : null
+}
+
+// When a status stopped applying: its expiry if that came first, otherwise now
+function effectiveEnd(expiresAt: Date | null, observedAt: Date): Date {
+  return expiresAt && expiresAt < observedAt ? expiresAt : observedAt
+}
+
+// Record the status a user has right now. Closes their previous status if it
+// changed and opens a new one unless the status was cleared.
+export async function recordCustomStatus(
+  userId: string,
+  status: CustomStatus,
+  observedAt: Date,
+  source: StatusSource
+): Promise<'unchanged' | 'changed'> {
+  const current = await prisma.statusChange.findFirst({
+    where: { userId, endedAt: null },
+    orderBy: { startedAt: 'desc' }
+  })
+
+  const expiresAt = expirationDate(status)
+  const isSet = status.text !== '' || status.emoji !== ''
+  const currentStillApplies = current && (!current.expiresAt || current.expiresAt > observedAt)
+
+  if (
+    current && currentStillApplies &&
+    current.statusText === status.text &&
+    current.statusEmoji === status.emoji &&
+    current.expiresAt?.getTime() === expiresAt?.getTime()
+  ) {
+    return 'unchanged'
+  }
+  if (!current && !isSet) {
+    return 'unchanged'
+  }
+
+  await prisma.$transaction([
+    ...(current ? [prisma.statusChange.update({
+      where: { id: current.id },
+      data: { endedAt: effectiveEnd(current.expiresAt, observedAt) }
+    })] : []),
+    ...(isSet ? [prisma.statusChange.create({
+      data: {
+        userId,
+        statusText: status.text,
+        statusEmoji: status.emoji,
+        expiresAt,
+        startedAt: observedAt,
+        source
+      }
+    })] : [])
+  ])
+
+  return 'changed'
+}
+
+// Statuses overlapping [start, end] for a set of users, oldest first and grouped
+// by user id. Open statuses end at their expiry, or are still running (endedAt null).
+export async function getStatusHistoryByUser(userIds: string[], start: Date, end: Date) {
+  const changes = await prisma.statusChange.findMany({
+    where: {
+      userId: { in: userIds },
+      startedAt: { lte: end },
+      OR: [
+        { endedAt: null },
+        { endedAt: { gte: start } }
+      ]
+    },
+    orderBy: { startedAt: 'asc' }
+  })
+
+  const historyByUser = new Map<string, StatusSpan[]>()
+  changes.forEach(change => {
+    const endedAt = change.endedAt ?? change.expiresAt
+    if (endedAt && endedAt < start) return
+
+    if (!historyByUser.has(change.userId)) {
+      historyByUser.set(change.userId, [])
+    }
+    historyByUser.get(change.userId)!.push({
+      statusText: change.statusText,
+      statusEmoji: change.statusEmoji,
+      expiresAt: change.expiresAt,
+      startedAt: change.startedAt,
+      endedAt
+    })
+  })
+
+  return historyByUser
+}
+
+// One user's statuses overlapping [start, end], oldest first
+export async function getStatusHistory(userId: string, start: Date, end: Date): Promise<StatusSpan[]> {
+  return (await getStatusHistoryByUser([userId], start, end)).get(userId) || []
+}
+
+export interface StatusLaneSpan {
+  statusText: string
+  statusEmoji: string
+  start: string
+  end: string
+}
+
+// Clip statuses to [start, end) for drawing on a day's timeline. A status that's
+// still running is drawn up to now.
+export function clipStatusSpans(spans: StatusSpan[], start: Date, end: Date, now: Date = new Date()): StatusLaneSpan[] {
+  return spans.flatMap(span => {
+    const from = Math.max(span.startedAt.getTime(), start.getTime())
+    const to = Math.min((span.endedAt ?? now).getTime(), end.getTime())
+    if (to <= from) return []
+
+    return [{
+      statusText: span.statusText,
+      statusEmoji: span.statusEmoji,
+      start: new Date(from).toISOString(),
+      end: new Date(to).toISOString()
+    }]
+  })
+}
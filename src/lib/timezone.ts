@@ -0,0 +1,70 @@
+// Small helpers for working with users' local calendar days. User.timezone holds
+// the IANA name Slack reports (e.g. "America/Los_Angeles").
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return 'UTC'
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return timeZone
+  } catch {
+    return 'UTC'
+  }
+}
+
+// How far ahead of UTC the zone's wall clock is at this instant
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// "YYYY-MM-DD" of the instant as seen in the timezone
+export function localDateKey(date: Date, timeZone: string | null | undefined): string {
+  const zone = resolveTimeZone(timeZone)
+  return new Date(date.getTime() + timeZoneOffsetMs(date, zone)).toISOString().split('T')[0]
+}
+
+// The UTC instant of local midnight at the start of dateKey
+export function zonedDayStart(dateKey: string, timeZone: string | null | undefined): Date {
+  const zone = resolveTimeZone(timeZone)
+  const utcMidnight = Date.parse(`${dateKey}T00:00:00.000Z`)
+
+  // Two passes settle the offset even when midnight sits next to a DST change
+  let guess = utcMidnight - timeZoneOffsetMs(new Date(utcMidnight), zone)
+  guess = utcMidnight - timeZoneOffsetMs(new Date(guess), zone)
+  return new Date(guess)
+}
+
+// [start, end) of a local calendar day - 23 or 25 hours long on DST changes
+export function zonedDayBounds(dateKey: string, timeZone: string | null | undefined) {
+  return {
+    start: zonedDayStart(dateKey, timeZone),
+    end: zonedDayStart(addDays(dateKey, 1), timeZone)
+  }
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00.000Z`) + days * DAY_MS).toISOString().split('T')[0]
+}
+
+// Every date key from `from` to `to`, inclusive
+export function dateKeysBetween(from: string, to: string): string[] {
+  const keys: string[] = []
+  for (let key = from; key <= to; key = addDays(key, 1)) {
+    keys.push(key)
+  }
+  return keys
+}
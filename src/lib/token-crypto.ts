@@ -0,0 +1,123 @@
+import crypto from 'crypto'
+
+// Envelope encryption for stored Slack tokens. Each token is encrypted with its own
+// random data key (AES-256-GCM), and the data key is wrapped with the master key
+// from TOKEN_ENCRYPTION_KEY. Sealed values look like
+//   enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext + auth tag>
+// and are what the database, installations and WorkspaceToken.token carry around.
+// Only the Slack gateway opens them.
+
+const SEALED_PREFIX = 'enc:v1:'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+function parseMasterKey(value: string): MasterKey {
+  const key = Buffer.from(value.trim(), 'base64')
+  if (key.length !== 32) {
+    throw new Error('Token encryption keys must be 32 bytes, base64 encoded (openssl rand -base64 32)')
+  }
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key }
+}
+
+// The key new values are sealed with
+function currentKey(): MasterKey {
+  if (!process.env.TOKEN_ENCRYPTION_KEY) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured')
+  }
+  return parseMasterKey(process.env.TOKEN_ENCRYPTION_KEY)
+}
+
+export function currentTokenKeyId() {
+  return currentKey().id
+}
+
+// The current key plus any retired ones still listed in TOKEN_ENCRYPTION_PREVIOUS_KEYS,
+// so values sealed before a rotation can still be opened until it finishes
+function knownKeys(): MasterKey[] {
+  const previous = (process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter(value => value.trim() !== '')
+    .map(parseMasterKey)
+  return [currentKey(), ...previous]
+}
+
+function encrypt(key: Buffer, plaintext: Buffer) {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+  return { iv, ciphertext }
+}
+
+function decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer) {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_BYTES))
+  return Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_BYTES)), decipher.final()])
+}
+
+export function isSealedToken(value: string) {
+  return value.startsWith(SEALED_PREFIX)
+}
+
+// The master key a sealed value was wrapped with, or null for a plaintext token
+export function sealedTokenKeyId(value: string) {
+  return isSealedToken(value) ? value.slice(SEALED_PREFIX.length).split(':')[0] : null
+}
+
+// Encrypt a token for storage. Already-sealed values are returned unchanged.
+export function sealToken(token: string): string {
+  if (isSealedToken(token)) return token
+
+  const master = currentKey()
+  const dataKey = crypto.randomBytes(32)
+  const wrapped = encrypt(master.key, dataKey)
+  const sealed = encrypt(dataKey, Buffer.from(token, 'utf8'))
+
+  return SEALED_PREFIX + [
+    master.id,
+    Buffer.concat([wrapped.iv, wrapped.ciphertext]).toString('base64'),
+    sealed.iv.toString('base64'),
+    sealed.ciphertext.toString('base64')
+  ].join(':')
+}
+
+export function sealOptionalToken(token: string | null | undefined) {
+  return token ? sealToken(token) : token
+}
+
+let warnedAboutPlaintext = false
+
+// Decrypt a sealed token. Only the Slack gateway (slack.ts) should call this -
+// everything else passes sealed values around. Tokens stored before encryption
+// are still accepted until `npm run rotate-token-key` has sealed them.
+export function openToken(value: string): string {
+  if (!isSealedToken(value)) {
+    if (!warnedAboutPlaintext) {
+      console.warn('⚠️ Using a Slack token stored in plaintext - run `npm run rotate-token-key` to encrypt stored tokens')
+      warnedAboutPlaintext = true
+    }
+    return value
+  }
+
+  const [keyId, wrappedKey, iv, ciphertext] = value.slice(SEALED_PREFIX.length).split(':')
+  const master = knownKeys().find(key => key.id === keyId)
+  if (!master) {
+    throw new Error(`Slack token was sealed with unknown key ${keyId} - is TOKEN_ENCRYPTION_PREVIOUS_KEYS missing a retired key?`)
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64')
+  const dataKey = decrypt(master.key, wrapped.subarray(0, IV_BYTES), wrapped.subarray(IV_BYTES))
+  return decrypt(dataKey, Buffer.from(iv, 'base64'), Buffer.from(ciphertext, 'base64')).toString('utf8')
+}
+
+// Re-seal a value under the current key without handing the plaintext to the
+// caller. Plaintext tokens get sealed; values already on the current key are
+// returned unchanged.
+export function resealToken(value: string): string {
+  if (sealedTokenKeyId(value) === currentTokenKeyId()) return value
+  return sealToken(openToken(value))
+}
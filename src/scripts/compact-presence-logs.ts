@@ -0,0 +1,35 @@
+import 'dotenv/config'
+import { compactPresenceLogs } from '../lib/presence-intervals'
+import { prisma } from '../lib/db'
+
+// Usage: npm run compact-presence -- [--user <userId>] [--batch-size 5000]
+// Safe to stop and re-run: each batch writes its intervals and deletes its logs together.
+
+function readFlag(args: string[], name: string) {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const userId = readFlag(args, '--user')
+  const batchSize = readFlag(args, '--batch-size')
+
+  console.log(`🗜️ Compacting presence logs into intervals${userId ? ` for user ${userId}` : ''}...`)
+  const result = await compactPresenceLogs({
+    userIds: userId ? [userId] : undefined,
+    batchSize: batchSize ? parseInt(batchSize, 10) : undefined
+  })
+
+  console.log(`🎉 Compacted ${result.logsCompacted} logs into ${result.intervalsCreated} intervals across ${result.users} users`)
+  if (result.logsSkipped > 0) {
+    console.log(`⚠️ Left ${result.logsSkipped} logs that overlap intervals the collector already recorded`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Presence log compaction failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,77 @@
+import 'dotenv/config'
+import { WebSocketServer, WebSocket } from 'ws'
+import { createSimulatorSource, SIMULATED_WORKSPACE } from '../lib/presence-simulator'
+
+// Minimal local stand-in for the Slack RTM presence protocol. It answers hello,
+// ping, presence_sub and presence_query, and reports presence changes from the
+// seeded simulator (PRESENCE_SIMULATOR_SEED) so the worker can be exercised without Slack.
+// Usage: npm run presence-standin, then SLACK_RTM_URL=ws://localhost:8765 npm run presence-worker
+
+const PORT = parseInt(process.env.PRESENCE_STANDIN_PORT || '8765')
+const simulator = createSimulatorSource()
+
+// presence_sub and presence_query carry the user ids; a frame without a proper list is ignored
+function isIdList(ids: unknown): ids is string[] {
+  return Array.isArray(ids) && ids.every(id => typeof id === 'string')
+}
+
+const server = new WebSocketServer({ port: PORT })
+
+server.on('connection', (socket: WebSocket) => {
+  console.log('🔌 Worker connected to stand-in')
+  const presence = new Map<string, 'active' | 'away'>()
+  let unsubscribe = () => {}
+
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }
+
+  send({ type: 'hello' })
+
+  socket.on('message', data => {
+    // Ignore frames that aren't JSON rather than taking the stand-in down
+    let message: { type?: string; id?: number; ids?: unknown } | null
+    try {
+      message = JSON.parse(data.toString())
+    } catch {
+      return
+    }
+    if (!message) return
+
+    switch (message.type) {
+      case 'ping':
+        send({ type: 'pong', reply_to: message.id })
+        break
+      case 'presence_sub': {
+        // presence_sub replaces the previous subscription
+        if (!isIdList(message.ids)) return
+        unsubscribe()
+        presence.clear()
+        unsubscribe = simulator.subscribe(SIMULATED_WORKSPACE, message.ids, change => {
+          const previous = presence.get(change.slackUserId)
+          presence.set(change.slackUserId, change.presence.presence)
+          // The first report per user is the starting point, sent when the worker asks with presence_query
+          if (!previous || previous === change.presence.presence) return
+          console.log(`🟢 ${change.slackUserId} → ${change.presence.presence}`)
+          send({ type: 'presence_change', user: change.slackUserId, presence: change.presence.presence })
+        })
+        console.log(`📡 Subscribed to ${presence.size} users`)
+        break
+      }
+      case 'presence_query':
+        if (!isIdList(message.ids)) return
+        message.ids.forEach(id => {
+          const current = presence.get(id)
+          if (current) send({ type: 'presence_change', user: id, presence: current })
+        })
+        break
+    }
+  })
+
+  socket.on('close', () => {
+    unsubscribe()
+    console.log('👋 Worker disconnected from stand-in')
+  })
+})
+
+console.log(`🚀 Slack presence stand-in listening on ws://localhost:${PORT}`)
@@ -0,0 +1,31 @@
+import 'dotenv/config'
+import { PresenceWorker } from '../lib/presence-worker'
+import { getWorkspaceTokens } from '../lib/installations'
+
+// Usage: npm run presence-worker
+// Starts one worker per installed workspace. Set SLACK_RTM_URL (e.g.
+// ws://localhost:8765) to run a single worker against the local stand-in.
+
+async function main() {
+  const workers = process.env.SLACK_RTM_URL
+    ? [new PresenceWorker({ rtmUrl: process.env.SLACK_RTM_URL })]
+    : (await getWorkspaceTokens()).map(workspace => new PresenceWorker({ slackTeamId: workspace.slackTeamId }))
+
+  if (workers.length === 0) {
+    throw new Error('No Slack installations found')
+  }
+
+  const shutdown = async () => {
+    await Promise.all(workers.map(worker => worker.stop()))
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  await Promise.all(workers.map(worker => worker.start()))
+}
+
+main().catch(error => {
+  console.error('❌ Presence worker failed to start:', error)
+  process.exit(1)
+})
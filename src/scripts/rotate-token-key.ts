@@ -0,0 +1,26 @@
+import 'dotenv/config'
+import { resealStoredTokens } from '../lib/installations'
+import { currentTokenKeyId } from '../lib/token-crypto'
+import { prisma } from '../lib/db'
+
+// Usage: npm run rotate-token-key
+// To rotate: move the old key into TOKEN_ENCRYPTION_PREVIOUS_KEYS, set a new
+// TOKEN_ENCRYPTION_KEY, run this, then drop the old key once it has finished.
+// Also seals tokens stored before encryption was added. Safe to re-run.
+
+async function main() {
+  console.log(`🔐 Re-sealing stored Slack tokens with key ${currentTokenKeyId()}...`)
+  const result = await resealStoredTokens()
+
+  console.log(`🎉 Re-sealed tokens for ${result.users} users and ${result.installations} installations`)
+  if (result.botTokensMoved > 0) {
+    console.log(`🧹 Removed bot tokens from the metadata of ${result.botTokensMoved} users`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Token key rotation failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,199 @@
+import 'dotenv/config'
+import { prisma } from '../lib/db'
+import { rebuildIntervalsFromLogs } from '../lib/presence-intervals'
+import { rebuildPresenceBuckets } from '../lib/presence-buckets'
+import { rebuildDailySummary, type SummaryAction, type SummaryUser } from '../lib/daily-summaries'
+import { addDays, dateKeysBetween, localDateKey } from '../lib/timezone'
+
+// Rebuild derived presence data for a date range. Run it after changing a
+// threshold or bucketing rule. Raw presence_logs are only read, never deleted -
+// that's left to the retention job - so it can be run again after the next
+// change. Every step is idempotent, so re-running over the same range only
+// rewrites what actually changed.
+
+const USAGE = `Usage: npm run backfill -- --from YYYY-MM-DD [--to YYYY-MM-DD] [options]
+
+Options:
+  --from <date>     First local day to rebuild (required)
+  --to <date>       Last local day to rebuild (default: yesterday)
+  --user <id>       Only this user (internal id or Slack user id)
+  --team <id>       Only users in this Slack team
+  --steps <list>    Comma-separated steps to run (default: intervals,buckets,summaries)
+  --dry-run         Report what would change without writing anything
+  --help            Show this message`
+
+interface BackfillOptions {
+  from: string
+  to: string
+  userId?: string
+  teamId?: string
+  steps: string[]
+  dryRun: boolean
+}
+
+interface BackfillUser extends SummaryUser {
+  name: string | null
+  slackUserId: string
+}
+
+interface BackfillContext {
+  users: BackfillUser[]
+  from: string
+  to: string
+  dryRun: boolean
+}
+
+type BackfillStep = (context: BackfillContext) => Promise<void>
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+function parseArgs(args: string[]): BackfillOptions {
+  const readFlag = (name: string) => {
+    const index = args.indexOf(name)
+    if (index < 0) return undefined
+    const value = args[index + 1]
+    if (!value || value.startsWith('--')) {
+      throw new Error(`${name} needs a value`)
+    }
+    return value
+  }
+
+  const from = readFlag('--from')
+  const to = readFlag('--to') || addDays(new Date().toISOString().split('T')[0], -1)
+
+  if (!from) throw new Error('--from is required')
+  if (!DATE_KEY.test(from) || !DATE_KEY.test(to)) throw new Error('Dates must be YYYY-MM-DD')
+  if (from > to) throw new Error('--from must not be after --to')
+
+  const steps = (readFlag('--steps') || Object.keys(STEPS).join(',')).split(',').map(step => step.trim())
+  const unknown = steps.filter(step => !(step in STEPS))
+  if (unknown.length > 0) throw new Error(`Unknown step(s): ${unknown.join(', ')}`)
+
+  return {
+    from,
+    to,
+    userId: readFlag('--user'),
+    teamId: readFlag('--team'),
+    steps,
+    dryRun: args.includes('--dry-run')
+  }
+}
+
+// Local days can start up to 14 hours either side of UTC midnight, so widen by a day
+function utcRange(from: string, to: string) {
+  return {
+    from: new Date(`${addDays(from, -1)}T00:00:00.000Z`),
+    to: new Date(`${addDays(to, 2)}T00:00:00.000Z`)
+  }
+}
+
+// Rebuild the intervals derived from raw presence_logs, keeping the logs
+async function rebuildIntervals({ users, from, to, dryRun }: BackfillContext) {
+  const result = await rebuildIntervalsFromLogs({
+    userIds: users.map(user => user.id),
+    from: utcRange(from, to).from,
+    dryRun
+  })
+
+  if (dryRun) {
+    console.log(`   Would replace ${result.intervalsReplaced} intervals with ones rebuilt from ${result.logsRead} presence logs`)
+  } else {
+    console.log(`   Replaced ${result.intervalsReplaced} intervals with ${result.intervalsCreated} rebuilt from ${result.logsRead} presence logs`)
+  }
+}
+
+// Roll raw presence_logs in the range into presence buckets, keeping the logs
+async function rebuildBuckets({ users, from, to, dryRun }: BackfillContext) {
+  const result = await rebuildPresenceBuckets({
+    userIds: users.map(user => user.id),
+    ...utcRange(from, to),
+    dryRun
+  })
+
+  console.log(`   ${dryRun ? 'Would write' : 'Wrote'} ${result.bucketsWritten} buckets from ${result.logsRead} presence logs`)
+  if (result.bucketsKept > 0) {
+    console.log(`   ⚠️ Kept ${result.bucketsKept} buckets retention already rolled up - some of their logs are gone`)
+  }
+}
+
+// Recompute DailySummary rows for each finished local day in the range
+async function rebuildSummaries({ users, from, to, dryRun }: BackfillContext) {
+  const totals: Record<SummaryAction, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0 }
+
+  for (const [index, user] of users.entries()) {
+    // Today isn't over yet for this user - the daily job finalizes it later
+    const today = localDateKey(new Date(), user.timezone)
+    const dateKeys = dateKeysBetween(from, to).filter(dateKey => dateKey < today)
+    const userTotals: Record<SummaryAction, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0 }
+
+    for (const dateKey of dateKeys) {
+      const { action } = await rebuildDailySummary(user, dateKey, { dryRun, source: 'backfill' })
+      userTotals[action]++
+      totals[action]++
+    }
+
+    console.log(`   [${index + 1}/${users.length}] ${user.name || user.slackUserId}: ${userTotals.created} created, ${userTotals.updated} updated, ${userTotals.unchanged} unchanged`)
+  }
+
+  console.log(`   ${dryRun ? 'Would create' : 'Created'} ${totals.created}, ${dryRun ? 'would update' : 'updated'} ${totals.updated}, ${totals.unchanged} already up to date`)
+}
+
+// Order matters: summaries are built from intervals, and from buckets for days without any
+const STEPS: Record<string, BackfillStep> = {
+  intervals: rebuildIntervals,
+  buckets: rebuildBuckets,
+  summaries: rebuildSummaries
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  if (args.includes('--help')) {
+    console.log(USAGE)
+    return
+  }
+
+  let options: BackfillOptions
+  try {
+    options = parseArgs(args)
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}\n`)
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+
+  const users = await prisma.user.findMany({
+    where: {
+      ...(options.userId ? { OR: [{ id: options.userId }, { slackUserId: options.userId }] } : {}),
+      ...(options.teamId ? { slackTeamId: options.teamId } : {})
+    },
+    select: { id: true, name: true, slackUserId: true, timezone: true, slackTeamId: true, createdAt: true },
+    orderBy: { name: 'asc' }
+  })
+
+  if (users.length === 0) {
+    console.error('❌ No users match the given --user/--team filters')
+    process.exitCode = 1
+    return
+  }
+
+  const startTime = Date.now()
+  console.log(`🚀 Backfilling ${options.from} → ${options.to} for ${users.length} users${options.dryRun ? ' (dry run - nothing will be written)' : ''}`)
+
+  const context: BackfillContext = { users, from: options.from, to: options.to, dryRun: options.dryRun }
+  for (const name of Object.keys(STEPS).filter(step => options.steps.includes(step))) {
+    const stepStart = Date.now()
+    console.log(`\n▶️ ${name}`)
+    await STEPS[name](context)
+    console.log(`   ✅ ${name} finished in ${Date.now() - stepStart}ms`)
+  }
+
+  console.log(`\n🎉 Backfill ${options.dryRun ? 'dry run ' : ''}completed in ${Date.now() - startTime}ms`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,32 @@
+import 'dotenv/config'
+import { registerVercelCrons, runJob, startScheduler, stopScheduler } from '../lib/scheduler'
+
+// Usage: npm run dev:cron (next to `npm run dev`)
+//        npm run dev:cron -- collect-presence   (run one job once)
+// Runs the vercel.json cron jobs against the app at SCHEDULER_BASE_URL
+// (default http://localhost:3000), with the same locking as the in-process scheduler.
+
+async function main() {
+  const [jobName] = process.argv.slice(2)
+
+  if (jobName) {
+    registerVercelCrons()
+    const outcome = await runJob(jobName)
+    await stopScheduler()
+    process.exit(outcome === 'failed' ? 1 : 0)
+  }
+
+  const shutdown = async () => {
+    await stopScheduler()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  startScheduler()
+}
+
+main().catch(error => {
+  console.error('❌ Scheduler failed:', error)
+  process.exit(1)
+})
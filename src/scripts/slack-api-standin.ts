@@ -0,0 +1,315 @@
+import 'dotenv/config'
+import http from 'http'
+import { createSimulatorSource, simulatedPresence, simulatorSeed, SIMULATED_WORKSPACE } from '../lib/presence-simulator'
+import type { SlackMember } from '../lib/slack-users'
+import { localDateKey, zonedDayStart, addDays } from '../lib/timezone'
+
+// Local stand-in for the Slack Web API, for end-to-end runs without a workspace.
+// It serves the simulator's people (PRESENCE_SIMULATOR_SEED) through users.list,
+// users.info, users.getPresence, dnd.teamInfo, conversations.list/history,
+// auth.test and the OAuth flow, and can be told to fail with Slack's errors.
+//
+// Usage: npm run slack-api-standin, then run the app with
+//   SLACK_API_BASE_URL=http://localhost:8790/api
+//
+// Errors are injected with SLACK_STANDIN_ERRORS, e.g.
+//   SLACK_STANDIN_ERRORS="users.getPresence=ratelimited:0.2,auth.test=invalid_auth"
+// (method or *, Slack error, optional probability), or while it runs:
+//   curl -X POST localhost:8790/_standin/errors -d '{"method":"users.list","error":"account_inactive","times":1}'
+//   curl -X DELETE localhost:8790/_standin/errors
+
+const PORT = parseInt(process.env.SLACK_STANDIN_PORT || '8790')
+const seed = simulatorSeed()
+const team = { id: SIMULATED_WORKSPACE.slackTeamId, name: SIMULATED_WORKSPACE.teamName || 'Simulated Workspace' }
+
+const BOT_TOKEN = 'xoxb-standin'
+const USER_TOKEN_PREFIX = 'xoxp-standin-'
+const BOT_USER_ID = 'USTANDINBOT'
+
+const CHANNELS = [
+  { id: 'C0STANDIN01', name: 'general' },
+  { id: 'C0STANDIN02', name: 'random' }
+]
+
+// How far back conversations.history has messages
+const HISTORY_DAYS = 7
+const HISTORY_SLOT_MS = 20 * 60 * 1000
+
+interface ErrorRule {
+  // A method name, or * for every method
+  method: string
+  error: string
+  // Chance of failing each matching call (default always)
+  probability?: number
+  // Stop after failing this many calls
+  times?: number
+  // Retry-After for ratelimited (default 5)
+  retryAfter?: number
+}
+
+function parseErrorRules(value: string): ErrorRule[] {
+  return value.split(',').filter(rule => rule.trim() !== '').map(rule => {
+    const [method, spec] = rule.trim().split('=')
+    const [error, probability] = (spec || '').split(':')
+    if (!method || !error) {
+      throw new Error(`Invalid SLACK_STANDIN_ERRORS rule "${rule}" - expected method=error[:probability]`)
+    }
+    return { method, error, ...(probability ? { probability: parseFloat(probability) } : {}) }
+  })
+}
+
+let errorRules = parseErrorRules(process.env.SLACK_STANDIN_ERRORS || '')
+
+function injectedError(method: string): ErrorRule | null {
+  const rule = errorRules.find(candidate =>
+    (candidate.method === '*' || candidate.method === method) &&
+    (candidate.times === undefined || candidate.times > 0)
+  )
+  if (!rule || Math.random() >= (rule.probability ?? 1)) return null
+
+  if (rule.times !== undefined) rule.times--
+  return rule
+}
+
+// --- Fixtures ---
+
+let members: SlackMember[] = []
+
+async function loadMembers() {
+  const simulated = await createSimulatorSource({ seed }).listMembers(SIMULATED_WORKSPACE)
+  members = [
+    ...simulated,
+    // Members the sync should skip
+    { id: BOT_USER_ID, team_id: team.id, name: 'standin bot', real_name: 'Stand-in Bot', is_bot: true, profile: {} },
+    { id: 'USTANDINGONE', team_id: team.id, name: 'former.member', real_name: 'Former Member', deleted: true, profile: {} }
+  ]
+}
+
+function findMember(id: string | undefined) {
+  return members.find(member => member.id === id)
+}
+
+// Messages over the last week from whoever the simulator has active, newest first
+function channelHistory(channelId: string) {
+  const channelIndex = CHANNELS.findIndex(channel => channel.id === channelId)
+  const people = members.filter(member => !member.is_bot && !member.deleted)
+  const now = Date.now()
+  const messages: Array<{ type: string; user: string; ts: string }> = []
+
+  const firstSlot = Math.floor((now - HISTORY_DAYS * 24 * 60 * 60 * 1000) / HISTORY_SLOT_MS)
+  for (let slot = Math.floor(now / HISTORY_SLOT_MS); slot >= firstSlot; slot--) {
+    const member = people[(slot * 7 + channelIndex * 3) % people.length]
+    const at = new Date(slot * HISTORY_SLOT_MS)
+    if (simulatedPresence(seed, member.id, at).presence !== 'active') continue
+    messages.push({ type: 'message', user: member.id, ts: `${Math.floor(at.getTime() / 1000)}.${String(channelIndex).padStart(6, '0')}` })
+  }
+  return messages
+}
+
+// Everyone with DND on gets a 22:00-07:00 local window
+function dndStatus(member: SlackMember, index: number) {
+  if (index % 3 === 0) {
+    return { dnd_enabled: false, next_dnd_start_ts: 1, next_dnd_end_ts: 1 }
+  }
+  const today = localDateKey(new Date(), member.tz)
+  const start = zonedDayStart(today, member.tz).getTime() + 22 * 60 * 60 * 1000
+  const end = zonedDayStart(addDays(today, 1), member.tz).getTime() + 7 * 60 * 60 * 1000
+  return { dnd_enabled: true, next_dnd_start_ts: Math.floor(start / 1000), next_dnd_end_ts: Math.floor(end / 1000) }
+}
+
+function page<T>(items: T[], cursor: string | undefined, limit: number) {
+  const offset = cursor ? parseInt(Buffer.from(cursor, 'base64').toString('utf8').replace('offset:', ''), 10) || 0 : 0
+  const next = offset + limit
+  return {
+    items: items.slice(offset, next),
+    nextCursor: next < items.length ? Buffer.from(`offset:${next}`).toString('base64') : ''
+  }
+}
+
+// --- Methods ---
+
+type Params = Record<string, string>
+type MethodResult = Record<string, unknown> | { error: string }
+
+// The member a token acts as, or null for an unknown token
+function tokenUser(token: string | null) {
+  if (token === BOT_TOKEN) return { id: BOT_USER_ID, name: 'standin bot', isBot: true }
+  if (token?.startsWith(USER_TOKEN_PREFIX)) {
+    const member = findMember(token.slice(USER_TOKEN_PREFIX.length))
+    if (member) return { id: member.id, name: member.name || member.id, isBot: false }
+  }
+  return null
+}
+
+function callMethod(method: string, params: Params, token: string | null): MethodResult {
+  if (method === 'oauth.v2.access') {
+    const member = findMember(params.code?.replace(/^standin-/, ''))
+    if (!member) return { error: 'invalid_code' }
+    return {
+      access_token: BOT_TOKEN,
+      token_type: 'bot',
+      scope: 'users:read,users:read.email,channels:read,groups:read,im:read,mpim:read,dnd:read',
+      bot_user_id: BOT_USER_ID,
+      app_id: 'ASTANDIN',
+      team,
+      enterprise: null,
+      is_enterprise_install: false,
+      authed_user: { id: member.id, scope: 'users:read,channels:read,channels:history', access_token: `${USER_TOKEN_PREFIX}${member.id}`, token_type: 'user' }
+    }
+  }
+
+  if (!token) return { error: 'not_authed' }
+  const caller = tokenUser(token)
+  if (!caller) return { error: 'invalid_auth' }
+
+  switch (method) {
+    case 'auth.test':
+      return {
+        url: 'http://localhost/',
+        team: team.name,
+        user: caller.name,
+        team_id: team.id,
+        user_id: caller.id,
+        ...(caller.isBot ? { bot_id: 'BSTANDIN' } : {})
+      }
+    case 'users.list': {
+      const { items, nextCursor } = page(members, params.cursor, parseInt(params.limit || '200'))
+      return { members: items, response_metadata: { next_cursor: nextCursor } }
+    }
+    case 'users.info': {
+      const member = findMember(params.user)
+      return member ? { user: member } : { error: 'user_not_found' }
+    }
+    case 'users.getPresence': {
+      const member = findMember(params.user)
+      if (!member) return { error: 'user_not_found' }
+      return { ...simulatedPresence(seed, member.id, new Date()) }
+    }
+    case 'dnd.teamInfo': {
+      const users: Record<string, unknown> = {}
+      for (const id of (params.users || '').split(',')) {
+        const index = members.findIndex(member => member.id === id)
+        if (index >= 0) users[id] = dndStatus(members[index], index)
+      }
+      return { users }
+    }
+    case 'conversations.list':
+      return { channels: CHANNELS.map(channel => ({ ...channel, is_private: false, is_archived: false, is_member: true })), response_metadata: { next_cursor: '' } }
+    case 'conversations.history': {
+      if (!CHANNELS.some(channel => channel.id === params.channel)) return { error: 'channel_not_found' }
+      const oldest = params.oldest ? parseFloat(params.oldest) : 0
+      const latest = params.latest ? parseFloat(params.latest) : Infinity
+      const messages = channelHistory(params.channel).filter(message => parseFloat(message.ts) > oldest && parseFloat(message.ts) < latest)
+      const { items, nextCursor } = page(messages, params.cursor, parseInt(params.limit || '100'))
+      return { messages: items, has_more: nextCursor !== '', response_metadata: { next_cursor: nextCursor } }
+    }
+    default:
+      return { error: 'unknown_method' }
+  }
+}
+
+// --- Server ---
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => resolve(body))
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
+
+function requestToken(request: http.IncomingMessage, params: Params) {
+  const header = request.headers.authorization || ''
+  if (header.startsWith('Bearer ')) return header.slice('Bearer '.length)
+  return params.token || null
+}
+
+async function handle(request: http.IncomingMessage, response: http.ServerResponse) {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`)
+  const body = request.method === 'GET' ? '' : await readBody(request)
+
+  // Error rules, managed at runtime
+  if (url.pathname === '/_standin/errors') {
+    if (request.method === 'POST') {
+      const rule = JSON.parse(body) as ErrorRule
+      errorRules.push(rule)
+      console.log(`💥 Injecting ${rule.error} into ${rule.method}${rule.probability !== undefined ? ` (${rule.probability * 100}% of calls)` : ''}${rule.times !== undefined ? ` for ${rule.times} calls` : ''}`)
+    } else if (request.method === 'DELETE') {
+      errorRules = []
+      console.log('🧹 Cleared injected errors')
+    }
+    return sendJson(response, 200, { ok: true, rules: errorRules })
+  }
+
+  // The authorize screen: approve straight away as SLACK_STANDIN_SIGN_IN_USER (or the first member)
+  if (url.pathname === '/oauth/v2/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri')
+    if (!redirectUri) return sendJson(response, 400, { ok: false, error: 'bad_redirect_uri' })
+
+    const userId = process.env.SLACK_STANDIN_SIGN_IN_USER || members[0].id
+    const redirect = new URL(redirectUri)
+    redirect.searchParams.set('code', `standin-${userId}`)
+    const state = url.searchParams.get('state')
+    if (state) redirect.searchParams.set('state', state)
+
+    console.log(`🔐 Authorizing as ${userId}`)
+    response.writeHead(302, { Location: redirect.toString() })
+    return response.end()
+  }
+
+  const match = url.pathname.match(/^\/api\/([\w.]+)$/)
+  if (!match) return sendJson(response, 404, { ok: false, error: 'unknown_method' })
+  const method = match[1]
+
+  const params: Params = Object.fromEntries([
+    ...url.searchParams.entries(),
+    ...new URLSearchParams(request.headers['content-type']?.includes('application/json') ? '' : body).entries()
+  ])
+
+  const injected = injectedError(method)
+  if (injected) {
+    console.log(`💥 ${method} → ${injected.error}`)
+    if (injected.error === 'ratelimited') {
+      const retryAfter = String(injected.retryAfter ?? 5)
+      return sendJson(response, 429, { ok: false, error: 'ratelimited' }, { 'Retry-After': retryAfter })
+    }
+    return sendJson(response, 200, { ok: false, error: injected.error })
+  }
+
+  const result = callMethod(method, params, requestToken(request, params))
+  if ('error' in result) {
+    console.log(`⚠️ ${method} → ${result.error}`)
+    return sendJson(response, 200, { ok: false, error: result.error })
+  }
+  console.log(`📡 ${method}`)
+  return sendJson(response, 200, { ok: true, ...result })
+}
+
+async function main() {
+  await loadMembers()
+
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch(error => {
+      console.error('❌ Stand-in request failed:', error)
+      sendJson(response, 500, { ok: false, error: 'internal_error' })
+    })
+  })
+
+  server.listen(PORT, () => {
+    console.log(`🚀 Slack API stand-in for ${team.name} (${members.length} members) listening on http://localhost:${PORT}/api`)
+    if (errorRules.length > 0) {
+      console.log('💥 Injecting errors:', errorRules.map(rule => `${rule.method}=${rule.error}${rule.probability !== undefined ? `:${rule.probability}` : ''}`).join(', '))
+    }
+  })
+}
+
+main().catch(error => {
+  console.error('❌ Slack API stand-in failed to start:', error)
+  process.exit(1)
+})
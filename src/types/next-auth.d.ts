@@ -12,6 +12,7 @@ declare module "next-auth" {
   interface User extends DefaultUser {
     slackUserId: string
     slackTeamId: string
+    // Sealed, see src/lib/token-crypto.ts
     slackAccessToken: string
     slackBotToken?: string
     slackTeamName?: string
@@ -23,6 +24,5 @@ declare module "next-auth/jwt" {
   interface JWT extends DefaultJWT {
     slackUserId?: string
     slackTeamId?: string
-    slackAccessToken?: string
   }
 }
\ No newline at end of file
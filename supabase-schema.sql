@@ -9,9 +9,16 @@ CREATE TABLE "users" (
     "email" TEXT,
     "avatar_url" TEXT,
     "slack_access_token" TEXT,
+    "has_slack_token" BOOLEAN NOT NULL DEFAULT false,
     "slack_team_id" TEXT,
     "timezone" TEXT,
-    "metadata" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "inactive_since" TIMESTAMP(3),
+    "is_admin" BOOLEAN NOT NULL DEFAULT false,
+    "is_owner" BOOLEAN NOT NULL DEFAULT false,
+    "title" TEXT,
+    "display_name" TEXT,
+    "metadata" JSONB,
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
@@ -24,7 +31,7 @@ CREATE TABLE "presence_logs" (
     "user_id" TEXT NOT NULL,
     "status" TEXT NOT NULL,
     "timestamp" TIMESTAMP(3) NOT NULL,
-    "metadata" TEXT,
+    "metadata" JSONB,
 
     CONSTRAINT "presence_logs_pkey" PRIMARY KEY ("id")
 );
@@ -39,10 +46,231 @@ CREATE TABLE "daily_summaries" (
     "last_active_time" TIMESTAMP(3),
     "peak_activity_hour" INTEGER,
     "metadata" TEXT,
+    "focus_minutes" INTEGER NOT NULL DEFAULT 0,
+    "tracked_minutes" INTEGER NOT NULL DEFAULT 0,
+    "message_count" INTEGER NOT NULL DEFAULT 0,
+    "time_off" BOOLEAN NOT NULL DEFAULT false,
+    "state_minutes" JSONB,
+    "category_minutes" JSONB,
+    "status_spans" JSONB,
+    "timeline" JSONB,
 
     CONSTRAINT "daily_summaries_pkey" PRIMARY KEY ("id")
 );
 
+-- CreateTable
+CREATE TABLE "slack_event_receipts" (
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "team_id" TEXT,
+    "retry_num" INTEGER NOT NULL DEFAULT 0,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slack_event_receipts_pkey" PRIMARY KEY ("event_id")
+);
+
+-- CreateTable
+CREATE TABLE "message_activity" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "slack_team_id" TEXT,
+    "message_ts" TEXT NOT NULL,
+    "posted_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'event',
+
+    CONSTRAINT "message_activity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "channels" (
+    "id" TEXT NOT NULL,
+    "slack_team_id" TEXT NOT NULL,
+    "name" TEXT,
+    "is_private" BOOLEAN NOT NULL DEFAULT false,
+    "is_archived" BOOLEAN NOT NULL DEFAULT false,
+    "sync_status" TEXT NOT NULL DEFAULT 'pending',
+    "backfill_complete" BOOLEAN NOT NULL DEFAULT false,
+    "sync_cursor" TEXT,
+    "backfill_from_ts" TEXT,
+    "oldest_synced_ts" TEXT,
+    "newest_synced_ts" TEXT,
+    "messages_synced" INTEGER NOT NULL DEFAULT 0,
+    "last_synced_at" TIMESTAMP(3),
+    "last_sync_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "slack_rate_limit_events" (
+    "id" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "retry_after_seconds" INTEGER NOT NULL,
+    "slack_team_id" TEXT,
+    "occurred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slack_rate_limit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "worker_heartbeats" (
+    "name" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "last_seen_at" TIMESTAMP(3) NOT NULL,
+    "metadata" TEXT,
+
+    CONSTRAINT "worker_heartbeats_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "presence_intervals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "presence_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_runs" (
+    "id" TEXT NOT NULL,
+    "request_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "slack_team_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "token_type" TEXT,
+    "users_total" INTEGER NOT NULL DEFAULT 0,
+    "success_count" INTEGER NOT NULL DEFAULT 0,
+    "error_count" INTEGER NOT NULL DEFAULT 0,
+    "user_results" TEXT,
+    "error" TEXT,
+
+    CONSTRAINT "collection_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "presence_buckets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "bucket_start" TIMESTAMP(3) NOT NULL,
+    "sample_count" INTEGER NOT NULL DEFAULT 0,
+    "active_count" INTEGER NOT NULL DEFAULT 0,
+    "first_active_at" TIMESTAMP(3),
+    "last_active_at" TIMESTAMP(3),
+    "source" TEXT NOT NULL DEFAULT 'retention',
+
+    CONSTRAINT "presence_buckets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "retention_policies" (
+    "slack_team_id" TEXT NOT NULL,
+    "raw_retention_days" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retention_policies_pkey" PRIMARY KEY ("slack_team_id")
+);
+
+-- CreateTable
+CREATE TABLE "dnd_intervals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "dnd_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "status_changes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status_text" TEXT NOT NULL,
+    "status_emoji" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3),
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "status_rules" (
+    "id" TEXT NOT NULL,
+    "slack_team_id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "match_type" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "status_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "installations" (
+    "id" TEXT NOT NULL,
+    "slack_team_id" TEXT,
+    "team_name" TEXT,
+    "enterprise_id" TEXT,
+    "enterprise_name" TEXT,
+    "is_enterprise_install" BOOLEAN NOT NULL DEFAULT false,
+    "workspace_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "app_id" TEXT,
+    "bot_token" TEXT,
+    "bot_id" TEXT,
+    "bot_user_id" TEXT,
+    "user_token" TEXT,
+    "installer_slack_user_id" TEXT,
+    "scopes" TEXT,
+    "user_scopes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "installations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credential_health" (
+    "slack_team_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "token_type" TEXT,
+    "message" TEXT,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credential_health_pkey" PRIMARY KEY ("slack_team_id")
+);
+
+-- CreateTable
+CREATE TABLE "job_states" (
+    "name" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "last_status" TEXT,
+    "last_started_at" TIMESTAMP(3),
+    "last_finished_at" TIMESTAMP(3),
+    "last_succeeded_at" TIMESTAMP(3),
+    "last_failed_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "last_duration_ms" INTEGER,
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "job_states_pkey" PRIMARY KEY ("name")
+);
+
 -- CreateIndex
 CREATE UNIQUE INDEX "users_slack_user_id_key" ON "users"("slack_user_id");
 
@@ -50,10 +278,10 @@ CREATE UNIQUE INDEX "users_slack_user_id_key" ON "users"("slack_user_id");
 CREATE INDEX "users_slack_team_id_idx" ON "users"("slack_team_id");
 
 -- CreateIndex
-CREATE INDEX "users_metadata_idx" ON "users"("metadata");
+CREATE INDEX "users_slack_team_id_is_active_idx" ON "users"("slack_team_id", "is_active");
 
 -- CreateIndex
-CREATE INDEX "users_slack_access_token_idx" ON "users"("slack_access_token");
+CREATE INDEX "users_has_slack_token_idx" ON "users"("has_slack_token");
 
 -- CreateIndex
 CREATE INDEX "presence_logs_user_id_timestamp_idx" ON "presence_logs"("user_id", "timestamp");
@@ -70,12 +298,93 @@ CREATE INDEX "presence_logs_user_id_status_idx" ON "presence_logs"("user_id", "s
 -- CreateIndex
 CREATE UNIQUE INDEX "daily_summaries_user_id_date_key" ON "daily_summaries"("user_id", "date");
 
+-- CreateIndex
+CREATE INDEX "slack_event_receipts_received_at_idx" ON "slack_event_receipts"("received_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_activity_channel_id_message_ts_key" ON "message_activity"("channel_id", "message_ts");
+
+-- CreateIndex
+CREATE INDEX "message_activity_user_id_posted_at_idx" ON "message_activity"("user_id", "posted_at");
+
+-- CreateIndex
+CREATE INDEX "message_activity_posted_at_idx" ON "message_activity"("posted_at");
+
+-- CreateIndex
+CREATE INDEX "channels_slack_team_id_last_synced_at_idx" ON "channels"("slack_team_id", "last_synced_at");
+
+-- CreateIndex
+CREATE INDEX "slack_rate_limit_events_occurred_at_idx" ON "slack_rate_limit_events"("occurred_at");
+
+-- CreateIndex
+CREATE INDEX "slack_rate_limit_events_slack_team_id_occurred_at_idx" ON "slack_rate_limit_events"("slack_team_id", "occurred_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presence_intervals_user_id_started_at_key" ON "presence_intervals"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "presence_intervals_user_id_ended_at_idx" ON "presence_intervals"("user_id", "ended_at");
+
+-- CreateIndex
+CREATE INDEX "presence_intervals_ended_at_idx" ON "presence_intervals"("ended_at");
+
+-- CreateIndex
+CREATE INDEX "collection_runs_started_at_idx" ON "collection_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "collection_runs_status_started_at_idx" ON "collection_runs"("status", "started_at");
+
+-- CreateIndex
+CREATE INDEX "collection_runs_slack_team_id_status_started_at_idx" ON "collection_runs"("slack_team_id", "status", "started_at");
+
+-- CreateIndex
+CREATE INDEX "presence_buckets_bucket_start_idx" ON "presence_buckets"("bucket_start");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presence_buckets_user_id_bucket_start_key" ON "presence_buckets"("user_id", "bucket_start");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dnd_intervals_user_id_started_at_key" ON "dnd_intervals"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "dnd_intervals_user_id_ended_at_idx" ON "dnd_intervals"("user_id", "ended_at");
+
+-- CreateIndex
+CREATE INDEX "status_changes_user_id_started_at_idx" ON "status_changes"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "status_changes_user_id_ended_at_idx" ON "status_changes"("user_id", "ended_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "status_rules_slack_team_id_match_type_pattern_key" ON "status_rules"("slack_team_id", "match_type", "pattern");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installations_slack_team_id_key" ON "installations"("slack_team_id");
+
+-- CreateIndex
+CREATE INDEX "installations_enterprise_id_idx" ON "installations"("enterprise_id");
+
 -- AddForeignKey
 ALTER TABLE "presence_logs" ADD CONSTRAINT "presence_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
 -- AddForeignKey
 ALTER TABLE "daily_summaries" ADD CONSTRAINT "daily_summaries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "message_activity" ADD CONSTRAINT "message_activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presence_intervals" ADD CONSTRAINT "presence_intervals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presence_buckets" ADD CONSTRAINT "presence_buckets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dnd_intervals" ADD CONSTRAINT "dnd_intervals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "status_changes" ADD CONSTRAINT "status_changes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
 -- Create function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$